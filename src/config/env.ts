@@ -15,19 +15,90 @@ export const config = {
     apiKey: process.env.OPENAI_API_KEY!,
   },
 
+  transcription: {
+    // openai (Whisper) or stub (offline, for local runs and tests)
+    provider: process.env.STT_PROVIDER || 'openai',
+    stubText: process.env.STT_STUB_TEXT || '',
+  },
+
   database: {
     url: process.env.DATABASE_URL!,
+    // Each user lock holds one connection for the handler's queries, so this
+    // bounds how many users are handled at once
+    poolMax: parseInt(process.env.DATABASE_POOL_MAX || '20', 10),
+    connectionTimeoutMs: parseInt(process.env.DATABASE_CONNECTION_TIMEOUT_MS || '10000', 10),
+  },
+
+  messaging: {
+    channel: process.env.MESSAGING_CHANNEL || 'twilio',
+    loopbackOutboxPath: process.env.LOOPBACK_OUTBOX_PATH || '.loopback/outbox.jsonl',
+  },
+
+  // Twilio Content SIDs of pre-approved templates for sends outside the 24h window
+  templates: {
+    morningCheckin: process.env.TWILIO_TEMPLATE_MORNING_SID || '',
+    nightlyLock: process.env.TWILIO_TEMPLATE_NIGHTLY_SID || '',
+    riskIntercept: process.env.TWILIO_TEMPLATE_RISK_SID || '',
+    refereeAlert: process.env.TWILIO_TEMPLATE_REFEREE_SID || '',
+    refereeApproval: process.env.TWILIO_TEMPLATE_REFEREE_APPROVAL_SID || '',
+  },
+
+  outbox: {
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '5000', 10),
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '6', 10),
+    baseBackoffSeconds: parseInt(process.env.OUTBOX_BASE_BACKOFF_SECONDS || '30', 10),
+    maxBackoffSeconds: parseInt(process.env.OUTBOX_MAX_BACKOFF_SECONDS || '3600', 10),
+  },
+
+  scheduler: {
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '30000', 10),
+  },
+
+  // Nightly lock escalation, in minutes before the user's sleep time. The
+  // missed lock is recorded at sleep time itself.
+  nightly: {
+    reminderMinutesBeforeSleep: parseInt(process.env.NIGHTLY_REMINDER_MINUTES || '120', 10),
+    nudgeMinutesBeforeSleep: (process.env.NIGHTLY_NUDGE_MINUTES || '60,30')
+      .split(',')
+      .map(m => parseInt(m.trim(), 10))
+      .filter(m => !isNaN(m)),
+    lastChanceMinutesBeforeSleep: parseInt(process.env.NIGHTLY_LAST_CHANCE_MINUTES || '10', 10),
+  },
+
+  // How long after a day ends its scores can still be logged or corrected.
+  // A day settled with token losses also needs the referee's approval.
+  scoring: {
+    backfillHours: parseInt(process.env.SCORE_BACKFILL_HOURS || '24', 10),
+  },
+
+  admin: {
+    // Bearer token for /admin routes; the routes are disabled when unset
+    token: process.env.ADMIN_TOKEN || '',
+  },
+
+  webhook: {
+    // Public URL Twilio calls (e.g. https://app.up.railway.app), used for signature checks
+    publicBaseUrl: process.env.PUBLIC_BASE_URL || '',
+    // Accept unsigned webhooks; for local testing only, refused in production
+    skipSignature: process.env.SKIP_TWILIO_SIGNATURE === '1',
   },
 };
 
 export function validateConfig() {
-  const required = [
-    'TWILIO_ACCOUNT_SID',
-    'TWILIO_AUTH_TOKEN',
-    'TWILIO_PHONE_NUMBER',
-    'OPENAI_API_KEY',
-    'DATABASE_URL',
-  ];
+  const required = ['OPENAI_API_KEY', 'DATABASE_URL'];
+
+  if (config.messaging.channel === 'twilio') {
+    required.push('TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'TWILIO_PHONE_NUMBER');
+  } else if (config.messaging.channel !== 'loopback') {
+    throw new Error(`Unknown MESSAGING_CHANNEL: ${config.messaging.channel}`);
+  } else if (config.nodeEnv === 'production') {
+    // The loopback channel accepts unsigned webhooks, so it must never face the internet
+    throw new Error('MESSAGING_CHANNEL=loopback is not allowed in production');
+  }
+
+  if (config.webhook.skipSignature && config.nodeEnv === 'production') {
+    throw new Error('SKIP_TWILIO_SIGNATURE is not allowed in production');
+  }
 
   const missing = required.filter(key => !process.env[key]);
 
@@ -1,11 +1,31 @@
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, types } from 'pg';
 import { config } from '../config/env';
 
+// Keep DATE columns as 'YYYY-MM-DD' strings. The default parser builds a JS
+// Date at server-local midnight, which shifts days across timezones.
+types.setTypeParser(1082, (value: string) => value);
+
 export const pool = new Pool({
   connectionString: config.database.url,
   ssl: config.nodeEnv === 'production' ? { rejectUnauthorized: false } : false,
+  max: config.database.poolMax,
+  // Fail a request rather than hang forever when the pool is exhausted
+  connectionTimeoutMillis: config.database.connectionTimeoutMs,
 });
 
+// The connection holding the current user lock or transaction. query()
+// runs on it, so a locked handler never waits on the pool for a second
+// connection and queries inside withTransaction join the transaction.
+// Cleared on release, so work left running in the background falls back to
+// the pool.
+interface LockedConnection {
+  client: PoolClient | null;
+  inTransaction: boolean;
+}
+
+const lockedConnection = new AsyncLocalStorage<LockedConnection>();
+
 export async function initializeDatabase() {
   const fs = await import('fs');
   const path = await import('path');
@@ -38,7 +58,7 @@ export async function initializeDatabase() {
 }
 
 export async function query<T = any>(text: string, params?: any[]): Promise<T[]> {
-  const result = await pool.query(text, params);
+  const result = await (lockedConnection.getStore()?.client || pool).query(text, params);
   return result.rows as T[];
 }
 
@@ -46,3 +66,74 @@ export async function queryOne<T = any>(text: string, params?: any[]): Promise<T
   const rows = await query<T>(text, params);
   return rows[0] || null;
 }
+
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  // Under a user lock, the transaction runs on the locked connection
+  const locked = lockedConnection.getStore();
+  if (locked?.client && !locked.inTransaction) {
+    const client = locked.client;
+    locked.inTransaction = true;
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      locked.inTransaction = false;
+    }
+  }
+
+  const client = await pool.connect();
+  const bound: LockedConnection = { client, inTransaction: true };
+  try {
+    await client.query('BEGIN');
+    const result = await lockedConnection.run(bound, () => fn(client));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    bound.client = null;
+    client.release();
+  }
+}
+
+// Runs fn while holding a per-key lock. Calls for the same key queue up
+// in-process first, then take a Postgres advisory lock so other replicas
+// serialize too. Used to process one user's messages strictly in order.
+const keyQueues = new Map<string, Promise<unknown>>();
+
+export async function withUserLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = keyQueues.get(key) || Promise.resolve();
+  const run = previous.catch(() => {}).then(() => withAdvisoryLock(key, fn));
+
+  keyQueues.set(key, run);
+  try {
+    return await run;
+  } finally {
+    // Only clear the slot if nothing queued behind us
+    if (keyQueues.get(key) === run) {
+      keyQueues.delete(key);
+    }
+  }
+}
+
+async function withAdvisoryLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  const locked: LockedConnection = { client, inTransaction: false };
+  try {
+    await client.query('SELECT pg_advisory_lock(hashtext($1))', [key]);
+    try {
+      return await lockedConnection.run(locked, fn);
+    } finally {
+      locked.client = null;
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [key]);
+    }
+  } finally {
+    client.release();
+  }
+}
@@ -1,4 +1,6 @@
 import { query, queryOne } from './client';
+import { InteractiveContent } from '../services/messaging';
+import { getUserToday, getUserYesterday, getUserWeekStart, getWeekStart } from '../services/time';
 
 // User types
 export interface User {
@@ -15,6 +17,8 @@ export interface User {
   loss_aversion_enabled: boolean;
   onboarding_complete: boolean;
   onboarding_step: string;
+  last_inbound_at: Date | null;
+  week_start_day: number; // 0 = Sunday, 1 = Monday
   created_at: Date;
 }
 
@@ -27,33 +31,67 @@ export interface Contract {
   locked_at: Date;
   expires_at: Date | null;
   active: boolean;
+  review_started_at: Date | null;
+  review_draft: BinaryAction[] | null; // next contract's actions while in review
+  goal_pack: string | null;
+  punishment: string | null; // due when the week's tokens hit zero
+  referee_phone: string | null;
 }
 
 export interface BinaryAction {
   name: string;
-  threshold?: string;
+  threshold?: string; // human-readable rule, e.g. "under 2000 kcal"
+  comparator?: ActionComparator;
+  target?: number;
+  unit?: string;
   points: number;
 }
 
+// at_most: stay under target; at_least: reach target; done: yes/no
+export type ActionComparator = 'at_most' | 'at_least' | 'done';
+
 export interface DailyLog {
   id: string;
   user_id: string;
   date: string;
   scores: Record<string, number>;
+  action_values: Record<string, number>; // raw amounts logged, in the action's unit
+  score_audit: ScoreAuditEntry[];
   total_score: number;
   tomorrow_locked: boolean;
   tomorrow_plan: TomorrowPlan | null;
   miss_reason: string | null;
   notes: string | null;
+  settled_at: Date | null;
+  missed_lock_recorded: boolean;
   created_at: Date;
 }
 
+export type ScoreChangeKind = 'log' | 'nightly' | 'backfill' | 'correct' | 'undo';
+
+// One action's change from one message. Entries written together share
+// `at`, which is how "undo last" finds the whole message.
+export interface ScoreAuditEntry {
+  at: string; // ISO time of the write
+  kind: ScoreChangeKind;
+  action: string;
+  from: number | null; // points before; null if it wasn't logged
+  to: number | null;
+  from_value: number | null; // logged amount before
+  to_value: number | null;
+  undoes?: string; // `at` of the change this reverts
+  approved_by?: string; // referee who allowed a change to a settled day
+}
+
+// Answers to the goal pack's plan questions, by question key. Fat-loss
+// plans (and every plan from before packs) use the named keys.
 export interface TomorrowPlan {
-  eating_window: string;
-  first_meal: string;
-  walk_time: string;
-  strength: boolean;
+  eating_window?: string;
+  first_meal?: string;
+  walk_time?: string;
+  strength?: boolean;
   danger_moment: string;
+  [key: string]: string | boolean | undefined;
 }
 
 export interface TokenRecord {
@@ -64,6 +102,8 @@ export interface TokenRecord {
   current_tokens: number;
   loss_events: LossEvent[];
   punishment_triggered: boolean;
+  archived_at: Date | null;
+  punishment_notified_at: Date | null;
 }
 
 export interface LossEvent {
@@ -87,6 +127,12 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   flow: string;
+  media_url: string | null;
+  media_content_type: string | null;
+  provider_sid: string | null;
+  delivery_status: string | null;
+  delivery_error: string | null;
+  delivery_updated_at: Date | null;
   created_at: Date;
 }
 
@@ -95,6 +141,10 @@ export async function findUserByPhone(phone: string): Promise<User | null> {
   return queryOne<User>('SELECT * FROM users WHERE phone = $1', [phone]);
 }
 
+export async function findUserById(id: string): Promise<User | null> {
+  return queryOne<User>('SELECT * FROM users WHERE id = $1', [id]);
+}
+
 export async function createUser(phone: string): Promise<User> {
   const rows = await query<User>(
     'INSERT INTO users (phone) VALUES ($1) RETURNING *',
@@ -105,7 +155,8 @@ export async function createUser(phone: string): Promise<User> {
 
 export async function updateUser(id: string, updates: Partial<User>): Promise<User | null> {
   const fields = Object.keys(updates);
-  const values = Object.values(updates);
+  // Arrays go to JSONB columns (risk_times); pg would send them as SQL arrays
+  const values = Object.values(updates).map(v => Array.isArray(v) ? JSON.stringify(v) : v);
   const setClause = fields.map((f, i) => `${f} = $${i + 2}`).join(', ');
 
   return queryOne<User>(
@@ -114,12 +165,19 @@ export async function updateUser(id: string, updates: Partial<User>): Promise<Us
   );
 }
 
+export async function touchLastInbound(userId: string): Promise<void> {
+  await query('UPDATE users SET last_inbound_at = NOW() WHERE id = $1', [userId]);
+}
+
 export async function getOrCreateUser(phone: string): Promise<User> {
-  let user = await findUserByPhone(phone);
-  if (!user) {
-    user = await createUser(phone);
+  const user = await findUserByPhone(phone);
+  if (user) {
+    return user;
   }
-  return user;
+
+  // Another request may have created the user in the meantime
+  await query('INSERT INTO users (phone) VALUES ($1) ON CONFLICT (phone) DO NOTHING', [phone]);
+  return (await findUserByPhone(phone))!;
 }
 
 // Contract queries
@@ -130,120 +188,290 @@ export async function getActiveContract(userId: string): Promise<Contract | null
   );
 }
 
+export interface ContractTerms {
+  goalPack?: string | null;
+  punishment?: string | null;
+  refereePhone?: string | null;
+}
+
 export async function createContract(
   userId: string,
   goal: string,
   binaryActions: BinaryAction[],
-  rulesText: string
+  rulesText: string,
+  terms: ContractTerms = {}
 ): Promise<Contract> {
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + 7); // 1 week
 
   const rows = await query<Contract>(
-    `INSERT INTO contracts (user_id, goal, binary_actions, rules_text, expires_at)
-     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
-    [userId, goal, JSON.stringify(binaryActions), rulesText, expiresAt]
+    `INSERT INTO contracts (user_id, goal, binary_actions, rules_text, expires_at, goal_pack, punishment, referee_phone)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [
+      userId,
+      goal,
+      JSON.stringify(binaryActions),
+      rulesText,
+      expiresAt,
+      terms.goalPack || null,
+      terms.punishment || null,
+      terms.refereePhone || null,
+    ]
   );
   return rows[0];
 }
 
-// Daily log queries
-export async function getTodayLog(userId: string): Promise<DailyLog | null> {
-  return queryOne<DailyLog>(
-    `SELECT * FROM daily_logs WHERE user_id = $1 AND date = CURRENT_DATE`,
-    [userId]
+// Opens the review window for an expired contract. Null if it was already
+// opened, so the review conversation starts once.
+export async function startContractReview(contractId: string): Promise<Contract | null> {
+  return queryOne<Contract>(
+    `UPDATE contracts SET review_started_at = NOW(), review_draft = binary_actions
+     WHERE id = $1 AND active = true AND review_started_at IS NULL
+     RETURNING *`,
+    [contractId]
   );
 }
 
-export async function getYesterdayLog(userId: string): Promise<DailyLog | null> {
-  return queryOne<DailyLog>(
-    `SELECT * FROM daily_logs WHERE user_id = $1 AND date = CURRENT_DATE - 1`,
+export async function updateContractReviewDraft(
+  contractId: string,
+  actions: BinaryAction[]
+): Promise<Contract | null> {
+  return queryOne<Contract>(
+    'UPDATE contracts SET review_draft = $2 WHERE id = $1 AND active = true RETURNING *',
+    [contractId, JSON.stringify(actions)]
+  );
+}
+
+// Retires a contract once its successor is locked. False if it was already
+// closed, e.g. by a double-tapped confirm.
+export async function closeContract(contractId: string): Promise<boolean> {
+  const row = await queryOne<{ id: string }>(
+    'UPDATE contracts SET active = false WHERE id = $1 AND active = true RETURNING id',
+    [contractId]
+  );
+  return row !== null;
+}
+
+// Onboarding session queries
+export interface OnboardingSession {
+  user_id: string;
+  goal: string | null;
+  goal_pack: string | null;
+  binary_actions: BinaryAction[] | null;
+  times: OnboardingTimes | null;
+  shame_level: number | null;
+  punishment: string | null;
+  referee_phone: string | null;
+  draft_contract: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OnboardingTimes {
+  wake: string;
+  sleep: string;
+  eatingStart: string;
+  eatingEnd: string;
+  dangerTimes: string[];
+  timezone: string;
+  weekStartDay: number;
+}
+
+export type OnboardingSessionUpdate = Partial<
+  Pick<
+    OnboardingSession,
+    'goal' | 'goal_pack' | 'binary_actions' | 'times' | 'shame_level' | 'punishment' | 'referee_phone' | 'draft_contract'
+  >
+>;
+
+export async function getOnboardingSession(userId: string): Promise<OnboardingSession | null> {
+  return queryOne<OnboardingSession>(
+    'SELECT * FROM onboarding_sessions WHERE user_id = $1',
     [userId]
   );
 }
 
-export async function upsertDailyLog(
+// Creates the session on first write; only the given fields change
+export async function saveOnboardingSession(
   userId: string,
-  date: string,
-  updates: Partial<DailyLog>
-): Promise<DailyLog> {
-  const existing = await queryOne<DailyLog>(
+  updates: OnboardingSessionUpdate
+): Promise<OnboardingSession> {
+  const fields = Object.keys(updates) as (keyof OnboardingSessionUpdate)[];
+  const values = fields.map(f => {
+    const value = updates[f];
+    return f === 'binary_actions' || f === 'times' ? JSON.stringify(value) : value;
+  });
+
+  const columns = ['user_id', ...fields].join(', ');
+  const placeholders = ['$1', ...fields.map((_, i) => `$${i + 2}`)].join(', ');
+  const setClause = [...fields.map(f => `${f} = EXCLUDED.${f}`), 'updated_at = NOW()'].join(', ');
+
+  const rows = await query<OnboardingSession>(
+    `INSERT INTO onboarding_sessions (${columns}) VALUES (${placeholders})
+     ON CONFLICT (user_id) DO UPDATE SET ${setClause}
+     RETURNING *`,
+    [userId, ...values]
+  );
+  return rows[0];
+}
+
+export async function deleteOnboardingSession(userId: string): Promise<void> {
+  await query('DELETE FROM onboarding_sessions WHERE user_id = $1', [userId]);
+}
+
+// Daily log queries
+// "Today" is the user's local date, not the database's CURRENT_DATE
+export async function getDailyLog(userId: string, date: string): Promise<DailyLog | null> {
+  return queryOne<DailyLog>(
     'SELECT * FROM daily_logs WHERE user_id = $1 AND date = $2',
     [userId, date]
   );
+}
 
-  if (existing) {
-    const fields = Object.keys(updates);
-    const values = Object.values(updates).map(v =>
-      typeof v === 'object' ? JSON.stringify(v) : v
-    );
-    const setClause = fields.map((f, i) => `${f} = $${i + 3}`).join(', ');
+export async function getTodayLog(user: User): Promise<DailyLog | null> {
+  return getDailyLog(user.id, getUserToday(user));
+}
 
-    const result = await queryOne<DailyLog>(
-      `UPDATE daily_logs SET ${setClause} WHERE user_id = $1 AND date = $2 RETURNING *`,
-      [userId, date, ...values]
-    );
-    return result!;
-  }
+export async function getYesterdayLog(user: User): Promise<DailyLog | null> {
+  return getDailyLog(user.id, getUserYesterday(user));
+}
 
-  const fields = ['user_id', 'date', ...Object.keys(updates)];
+// Single statement so concurrent writers can't both miss the row and
+// collide on UNIQUE(user_id, date)
+export async function upsertDailyLog(
+  userId: string,
+  date: string,
+  updates: Partial<DailyLog>
+): Promise<DailyLog> {
+  const updateFields = Object.keys(updates);
+  const fields = ['user_id', 'date', ...updateFields];
   const values = [userId, date, ...Object.values(updates).map(v =>
-    typeof v === 'object' ? JSON.stringify(v) : v
+    typeof v === 'object' && v !== null ? JSON.stringify(v) : v
   )];
   const placeholders = fields.map((_, i) => `$${i + 1}`).join(', ');
+  const setClause = updateFields.length > 0
+    ? updateFields.map(f => `${f} = EXCLUDED.${f}`).join(', ')
+    : 'user_id = EXCLUDED.user_id';
 
   const rows = await query<DailyLog>(
-    `INSERT INTO daily_logs (${fields.join(', ')}) VALUES (${placeholders}) RETURNING *`,
+    `INSERT INTO daily_logs (${fields.join(', ')}) VALUES (${placeholders})
+     ON CONFLICT (user_id, date) DO UPDATE SET ${setClause}
+     RETURNING *`,
     values
   );
   return rows[0];
 }
 
-export async function getRecentLogs(userId: string, days: number = 7): Promise<DailyLog[]> {
+// Marks a day settled, creating an empty log if the user never logged it.
+// Returns null if the day was already settled, so settlement runs once.
+export async function claimDailySettlement(userId: string, date: string): Promise<DailyLog | null> {
+  return queryOne<DailyLog>(
+    `INSERT INTO daily_logs (user_id, date, settled_at) VALUES ($1, $2, NOW())
+     ON CONFLICT (user_id, date) DO UPDATE SET settled_at = NOW()
+     WHERE daily_logs.settled_at IS NULL
+     RETURNING *`,
+    [userId, date]
+  );
+}
+
+// Claims the one "Missed nightly lock" charge for a day. False if the day
+// was locked or the miss was already recorded (by the nightly escalation or
+// by settlement, whichever came first).
+export async function claimMissedLock(userId: string, date: string): Promise<boolean> {
+  const row = await queryOne<{ id: string }>(
+    `INSERT INTO daily_logs (user_id, date, missed_lock_recorded) VALUES ($1, $2, true)
+     ON CONFLICT (user_id, date) DO UPDATE SET missed_lock_recorded = true
+     WHERE NOT COALESCE(daily_logs.missed_lock_recorded, false)
+       AND NOT COALESCE(daily_logs.tomorrow_locked, false)
+     RETURNING id`,
+    [userId, date]
+  );
+  return row !== null;
+}
+
+// The last `days` local days, including today
+export async function getRecentLogs(user: User, days: number = 7): Promise<DailyLog[]> {
   return query<DailyLog>(
-    `SELECT * FROM daily_logs WHERE user_id = $1 AND date >= CURRENT_DATE - INTERVAL '1 day' * $2 ORDER BY date DESC`,
-    [userId, days]
+    `SELECT * FROM daily_logs WHERE user_id = $1 AND date > $2::date - $3::int ORDER BY date DESC`,
+    [user.id, getUserToday(user), days]
+  );
+}
+
+// Logs for local dates from..to inclusive, oldest first
+export async function getLogsInRange(userId: string, from: string, to: string): Promise<DailyLog[]> {
+  return query<DailyLog>(
+    'SELECT * FROM daily_logs WHERE user_id = $1 AND date BETWEEN $2 AND $3 ORDER BY date',
+    [userId, from, to]
   );
 }
 
 // Token queries
-export async function getCurrentWeekTokens(userId: string): Promise<TokenRecord | null> {
+export async function getCurrentWeekTokens(user: User): Promise<TokenRecord | null> {
   return queryOne<TokenRecord>(
-    `SELECT * FROM tokens WHERE user_id = $1 AND week_start = date_trunc('week', CURRENT_DATE)::date`,
-    [userId]
+    'SELECT * FROM tokens WHERE user_id = $1 AND week_start = $2',
+    [user.id, getUserWeekStart(user)]
   );
 }
 
-export async function getOrCreateWeekTokens(userId: string): Promise<TokenRecord> {
-  let tokens = await getCurrentWeekTokens(userId);
-  if (!tokens) {
-    const rows = await query<TokenRecord>(
-      `INSERT INTO tokens (user_id, week_start) VALUES ($1, date_trunc('week', CURRENT_DATE)::date) RETURNING *`,
-      [userId]
-    );
-    tokens = rows[0];
-  }
-  return tokens;
+// Tokens for the week containing `date` (defaults to the user's today)
+export async function getOrCreateWeekTokens(
+  user: User,
+  date: string = getUserToday(user)
+): Promise<TokenRecord> {
+  const weekStart = getWeekStart(date, user.week_start_day ?? 1);
+  const rows = await query<TokenRecord>(
+    `INSERT INTO tokens (user_id, week_start) VALUES ($1, $2)
+     ON CONFLICT (user_id, week_start) DO UPDATE SET week_start = EXCLUDED.week_start
+     RETURNING *`,
+    [user.id, weekStart]
+  );
+  return rows[0];
 }
 
+// Closes a week's tokens row. Returns null if it was already archived, so
+// a week is only ever rolled over (and announced) once.
+export async function archiveWeekTokens(userId: string, weekStart: string): Promise<TokenRecord | null> {
+  return queryOne<TokenRecord>(
+    `INSERT INTO tokens (user_id, week_start, archived_at) VALUES ($1, $2, NOW())
+     ON CONFLICT (user_id, week_start) DO UPDATE SET archived_at = NOW()
+     WHERE tokens.archived_at IS NULL
+     RETURNING *`,
+    [userId, weekStart]
+  );
+}
+
+// Marks the week's punishment as announced. Null if it already was, so the
+// user and referee hear about it once however many failures follow.
+export async function claimPunishmentNotice(tokensId: string): Promise<TokenRecord | null> {
+  return queryOne<TokenRecord>(
+    `UPDATE tokens SET punishment_notified_at = NOW()
+     WHERE id = $1 AND punishment_triggered AND punishment_notified_at IS NULL
+     RETURNING *`,
+    [tokensId]
+  );
+}
+
+// Deducts in one UPDATE (all SET expressions see the pre-update row), so
+// concurrent deductions can't overwrite each other's balance or loss events
 export async function deductToken(
-  userId: string,
+  user: User,
   reason: string,
-  amount: number = 1
+  amount: number = 1,
+  date: string = getUserToday(user)
 ): Promise<TokenRecord> {
-  const tokens = await getOrCreateWeekTokens(userId);
-  const newAmount = Math.max(0, tokens.current_tokens - amount);
+  const tokens = await getOrCreateWeekTokens(user, date);
   const lossEvent: LossEvent = {
-    date: new Date().toISOString().split('T')[0],
+    date,
     reason,
     amount,
   };
-  const lossEvents = [...tokens.loss_events, lossEvent];
 
   const result = await queryOne<TokenRecord>(
-    `UPDATE tokens SET current_tokens = $2, loss_events = $3, punishment_triggered = $4
+    `UPDATE tokens SET current_tokens = GREATEST(0, current_tokens - $2),
+       loss_events = loss_events || $3::jsonb,
+       punishment_triggered = punishment_triggered OR current_tokens - $2 <= 0
      WHERE id = $1 RETURNING *`,
-    [tokens.id, newAmount, JSON.stringify(lossEvents), newAmount === 0]
+    [tokens.id, amount, JSON.stringify([lossEvent])]
   );
   return result!;
 }
@@ -286,15 +514,44 @@ export async function saveMessage(
   userId: string,
   role: 'user' | 'assistant',
   content: string,
-  flow: string
+  flow: string,
+  media?: { url: string; contentType?: string }
 ): Promise<Message> {
   const rows = await query<Message>(
-    'INSERT INTO messages (user_id, role, content, flow) VALUES ($1, $2, $3, $4) RETURNING *',
-    [userId, role, content, flow]
+    `INSERT INTO messages (user_id, role, content, flow, media_url, media_content_type)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+    [userId, role, content, flow, media?.url || null, media?.contentType || null]
   );
   return rows[0];
 }
 
+export async function findMessageByProviderSid(providerSid: string): Promise<Message | null> {
+  return queryOne<Message>('SELECT * FROM messages WHERE provider_sid = $1', [providerSid]);
+}
+
+export async function updateMessageDeliveryStatus(
+  id: string,
+  status: string,
+  errorCode: string | null
+): Promise<void> {
+  await query(
+    `UPDATE messages SET delivery_status = $2, delivery_error = $3, delivery_updated_at = NOW()
+     WHERE id = $1`,
+    [id, status, errorCode]
+  );
+}
+
+export async function getLatestFlowMessage(
+  userId: string,
+  flow: string,
+  role: 'user' | 'assistant' = 'assistant'
+): Promise<Message | null> {
+  return queryOne<Message>(
+    'SELECT * FROM messages WHERE user_id = $1 AND flow = $2 AND role = $3 ORDER BY created_at DESC LIMIT 1',
+    [userId, flow, role]
+  );
+}
+
 export async function getRecentMessages(
   userId: string,
   limit: number = 20
@@ -315,3 +572,388 @@ export async function getFlowMessages(
     [userId, flow, limit]
   );
 }
+
+// Inbound webhook deduplication
+export async function claimInboundMessage(messageSid: string): Promise<boolean> {
+  const rows = await query<{ message_sid: string }>(
+    'INSERT INTO processed_webhooks (message_sid) VALUES ($1) ON CONFLICT DO NOTHING RETURNING message_sid',
+    [messageSid]
+  );
+  return rows.length > 0;
+}
+
+export async function releaseInboundMessage(messageSid: string): Promise<void> {
+  await query('DELETE FROM processed_webhooks WHERE message_sid = $1', [messageSid]);
+}
+
+// Outbox queries
+export interface OutboxMessage {
+  id: string;
+  user_id: string | null;
+  message_id: string | null;
+  to_address: string;
+  body: string;
+  media_url: string | null;
+  flow: string | null;
+  template_key: string | null;
+  template_variables: Record<string, string> | null;
+  interactive: InteractiveContent | null;
+  status: 'pending' | 'sent' | 'dead';
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  provider_sid: string | null;
+  created_at: Date;
+  sent_at: Date | null;
+}
+
+export interface NewOutboxMessage {
+  userId: string | null;
+  to: string;
+  body: string;
+  flow: string | null;
+  mediaUrl?: string | null;
+  messageId?: string | null;
+  template?: { key: string; variables: Record<string, string> } | null;
+  interactive?: object | null;
+}
+
+export async function enqueueOutboxMessage(message: NewOutboxMessage): Promise<OutboxMessage> {
+  const rows = await query<OutboxMessage>(
+    `INSERT INTO outbox (user_id, to_address, body, flow, media_url, message_id, template_key, template_variables, interactive)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+    [
+      message.userId,
+      message.to,
+      message.body,
+      message.flow,
+      message.mediaUrl || null,
+      message.messageId || null,
+      message.template?.key || null,
+      message.template ? JSON.stringify(message.template.variables) : null,
+      message.interactive ? JSON.stringify(message.interactive) : null,
+    ]
+  );
+  return rows[0];
+}
+
+// Claims due messages by pushing next_attempt_at out by the lease, so a
+// crashed worker's rows become due again instead of being stuck
+export async function claimDueOutboxMessages(
+  limit: number,
+  leaseSeconds: number
+): Promise<OutboxMessage[]> {
+  return query<OutboxMessage>(
+    `UPDATE outbox SET attempts = attempts + 1,
+       next_attempt_at = NOW() + INTERVAL '1 second' * $2
+     WHERE id IN (
+       SELECT id FROM outbox
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [limit, leaseSeconds]
+  );
+}
+
+export async function markOutboxSent(
+  message: OutboxMessage,
+  providerSid: string,
+  providerStatus: string
+): Promise<void> {
+  await query(
+    `UPDATE outbox SET status = 'sent', provider_sid = $2, sent_at = NOW(), last_error = NULL
+     WHERE id = $1`,
+    [message.id, providerSid]
+  );
+
+  if (message.message_id) {
+    await query(
+      `UPDATE messages SET provider_sid = $2, delivery_status = $3, delivery_updated_at = NOW()
+       WHERE id = $1`,
+      [message.message_id, providerSid, providerStatus]
+    );
+  }
+}
+
+export async function markOutboxFailed(
+  id: string,
+  error: string,
+  retryInSeconds: number | null
+): Promise<void> {
+  if (retryInSeconds === null) {
+    await query(
+      `UPDATE outbox SET status = 'dead', last_error = $2 WHERE id = $1`,
+      [id, error]
+    );
+    return;
+  }
+
+  await query(
+    `UPDATE outbox SET last_error = $2, next_attempt_at = NOW() + INTERVAL '1 second' * $3
+     WHERE id = $1`,
+    [id, error, retryInSeconds]
+  );
+}
+
+export async function getFailedOutboxMessages(
+  userId: string,
+  limit: number = 20
+): Promise<OutboxMessage[]> {
+  return query<OutboxMessage>(
+    `SELECT * FROM outbox
+     WHERE user_id = $1 AND (status = 'dead' OR (status = 'pending' AND last_error IS NOT NULL))
+     ORDER BY created_at DESC LIMIT $2`,
+    [userId, limit]
+  );
+}
+
+export async function requeueOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  return queryOne<OutboxMessage>(
+    `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+     WHERE id = $1 AND status = 'dead' RETURNING *`,
+    [id]
+  );
+}
+
+// Risk proposal queries
+export interface RiskProposal {
+  id: string;
+  user_id: string;
+  local_time: string; // HH:MM intercept time
+  failure_hour: number; // local hour the failures cluster around
+  occurrences: number;
+  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  created_at: Date;
+  decided_at: Date | null;
+}
+
+export async function createRiskProposal(
+  userId: string,
+  localTime: string,
+  failureHour: number,
+  occurrences: number
+): Promise<RiskProposal> {
+  // Only one open question at a time: a new proposal replaces any pending one
+  await query(
+    `UPDATE risk_proposals SET status = 'expired', decided_at = NOW()
+     WHERE user_id = $1 AND status = 'pending'`,
+    [userId]
+  );
+
+  const rows = await query<RiskProposal>(
+    `INSERT INTO risk_proposals (user_id, local_time, failure_hour, occurrences)
+     VALUES ($1, $2, $3, $4) RETURNING *`,
+    [userId, localTime, failureHour, occurrences]
+  );
+  return rows[0];
+}
+
+export async function getPendingRiskProposal(userId: string): Promise<RiskProposal | null> {
+  return queryOne<RiskProposal>(
+    `SELECT * FROM risk_proposals WHERE user_id = $1 AND status = 'pending'
+     ORDER BY created_at DESC LIMIT 1`,
+    [userId]
+  );
+}
+
+// Proposals made or answered in the last `days`, so we don't ask again
+export async function getRecentRiskProposals(userId: string, days: number): Promise<RiskProposal[]> {
+  return query<RiskProposal>(
+    `SELECT * FROM risk_proposals
+     WHERE user_id = $1 AND COALESCE(decided_at, created_at) > NOW() - make_interval(days => $2)`,
+    [userId, days]
+  );
+}
+
+// Null if the proposal was already answered (e.g. a double tap) or isn't
+// this user's
+export async function decideRiskProposal(
+  userId: string,
+  id: string,
+  status: 'accepted' | 'declined'
+): Promise<RiskProposal | null> {
+  return queryOne<RiskProposal>(
+    `UPDATE risk_proposals SET status = $3, decided_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND status = 'pending' RETURNING *`,
+    [id, userId, status]
+  );
+}
+
+// Score approval queries
+export interface ScoreApproval {
+  id: string;
+  user_id: string;
+  referee_phone: string;
+  code: string;
+  date: string;
+  kind: ScoreChangeKind;
+  updates: { action: string; completed: boolean; value?: number }[];
+  undoes: string | null;
+  status: 'pending' | 'approved' | 'denied' | 'expired';
+  created_at: Date;
+  decided_at: Date | null;
+}
+
+export async function createScoreApproval(
+  approval: Pick<ScoreApproval, 'user_id' | 'referee_phone' | 'code' | 'date' | 'kind' | 'updates' | 'undoes'>
+): Promise<ScoreApproval> {
+  // One open request per user: a newer one replaces it
+  await query(
+    `UPDATE score_approvals SET status = 'expired', decided_at = NOW()
+     WHERE user_id = $1 AND status = 'pending'`,
+    [approval.user_id]
+  );
+
+  const rows = await query<ScoreApproval>(
+    `INSERT INTO score_approvals (user_id, referee_phone, code, date, kind, updates, undoes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [
+      approval.user_id,
+      approval.referee_phone,
+      approval.code,
+      approval.date,
+      approval.kind,
+      JSON.stringify(approval.updates),
+      approval.undoes,
+    ]
+  );
+  return rows[0];
+}
+
+// Matched on digits alone: the referee's number was typed at onboarding,
+// the sender's arrives as "whatsapp:+..."
+export async function findPendingScoreApproval(refereePhone: string, code: string): Promise<ScoreApproval | null> {
+  return queryOne<ScoreApproval>(
+    `SELECT * FROM score_approvals
+     WHERE regexp_replace(referee_phone, '\\D', '', 'g') = regexp_replace($1, '\\D', '', 'g')
+       AND code = $2 AND status = 'pending'
+     ORDER BY created_at DESC LIMIT 1`,
+    [refereePhone, code]
+  );
+}
+
+// Null if the request was already answered
+export async function decideScoreApproval(
+  id: string,
+  status: 'approved' | 'denied' | 'expired'
+): Promise<ScoreApproval | null> {
+  return queryOne<ScoreApproval>(
+    `UPDATE score_approvals SET status = $2, decided_at = NOW()
+     WHERE id = $1 AND status = 'pending' RETURNING *`,
+    [id, status]
+  );
+}
+
+// Scheduled job queries
+export type JobType =
+  | 'morning'
+  | 'reminder'
+  | 'risk_review'
+  | 'contract_review'
+  | 'weekly_rollover'
+  | 'nightly'
+  | 'nightly_nudge'
+  | 'nightly_last_chance'
+  | 'missed_lock'
+  | 'risk'
+  | 'settlement';
+
+export interface ScheduledJobRecord {
+  id: string;
+  user_id: string;
+  job_key: string;
+  type: JobType;
+  payload: Record<string, any>;
+  recurrence: 'daily' | 'weekly' | null;
+  local_time: string | null;
+  weekday: number | null;
+  timezone: string | null;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  active: boolean;
+  created_at: Date;
+}
+
+export interface JobDefinition {
+  jobKey: string;
+  type: JobType;
+  payload?: Record<string, any>;
+  recurrence: 'daily' | 'weekly' | null;
+  localTime?: string;
+  weekday?: number;
+  timezone?: string;
+  nextRunAt: Date;
+}
+
+// Keeps an existing job's next_run_at unless its schedule changed, so a
+// restart doesn't skip a run that came due while the process was down
+export async function upsertScheduledJob(
+  userId: string,
+  job: JobDefinition
+): Promise<ScheduledJobRecord> {
+  const rows = await query<ScheduledJobRecord>(
+    `INSERT INTO scheduled_jobs
+       (user_id, job_key, type, payload, recurrence, local_time, weekday, timezone, next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (job_key) DO UPDATE SET
+       payload = EXCLUDED.payload,
+       recurrence = EXCLUDED.recurrence,
+       local_time = EXCLUDED.local_time,
+       weekday = EXCLUDED.weekday,
+       timezone = EXCLUDED.timezone,
+       active = true,
+       next_run_at = CASE
+         WHEN scheduled_jobs.active
+           AND scheduled_jobs.local_time IS NOT DISTINCT FROM EXCLUDED.local_time
+           AND scheduled_jobs.weekday IS NOT DISTINCT FROM EXCLUDED.weekday
+           AND scheduled_jobs.timezone IS NOT DISTINCT FROM EXCLUDED.timezone
+         THEN scheduled_jobs.next_run_at
+         ELSE EXCLUDED.next_run_at
+       END
+     RETURNING *`,
+    [
+      userId,
+      job.jobKey,
+      job.type,
+      JSON.stringify(job.payload || {}),
+      job.recurrence,
+      job.localTime || null,
+      job.weekday ?? null,
+      job.timezone || null,
+      job.nextRunAt,
+    ]
+  );
+  return rows[0];
+}
+
+export async function deactivateUserJobs(
+  userId: string,
+  types: JobType[],
+  keepKeys: string[] = []
+): Promise<void> {
+  await query(
+    `UPDATE scheduled_jobs SET active = false
+     WHERE user_id = $1 AND type = ANY($2) AND NOT (job_key = ANY($3))`,
+    [userId, types, keepKeys]
+  );
+}
+
+export async function deactivateScheduledJob(userId: string, jobId: string): Promise<boolean> {
+  const row = await queryOne<{ id: string }>(
+    'UPDATE scheduled_jobs SET active = false WHERE id = $1 AND user_id = $2 AND active = true RETURNING id',
+    [jobId, userId]
+  );
+  return row !== null;
+}
+
+export async function getUserJobs(userId: string, type?: JobType): Promise<ScheduledJobRecord[]> {
+  return query<ScheduledJobRecord>(
+    `SELECT * FROM scheduled_jobs
+     WHERE user_id = $1 AND active = true AND ($2::text IS NULL OR type = $2)
+     ORDER BY next_run_at`,
+    [userId, type || null]
+  );
+}
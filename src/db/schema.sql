@@ -86,8 +86,123 @@ CREATE TABLE IF NOT EXISTS messages (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Inbound webhook deduplication (Twilio retries reuse the MessageSid)
+CREATE TABLE IF NOT EXISTS processed_webhooks (
+  message_sid VARCHAR(64) PRIMARY KEY,
+  received_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Outbound message queue (delivered by the outbox worker with retry/backoff)
+CREATE TABLE IF NOT EXISTS outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  to_address VARCHAR(50) NOT NULL,
+  body TEXT NOT NULL,
+  media_url TEXT,
+  flow VARCHAR(50),
+  status VARCHAR(20) DEFAULT 'pending',
+  attempts INT DEFAULT 0,
+  next_attempt_at TIMESTAMP DEFAULT NOW(),
+  last_error TEXT,
+  template_key VARCHAR(50),
+  template_variables JSONB,
+  interactive JSONB,
+  provider_sid VARCHAR(64),
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP
+);
+
+-- Scheduled jobs (claimed by the scheduler poller with FOR UPDATE SKIP LOCKED)
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  job_key VARCHAR(150) UNIQUE NOT NULL,
+  type VARCHAR(30) NOT NULL,
+  payload JSONB DEFAULT '{}',
+  recurrence VARCHAR(10),
+  local_time VARCHAR(5),
+  weekday INT,
+  timezone VARCHAR(50),
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Onboarding answers collected so far, so a restart or days of silence
+-- don't lose them (the current step lives on users.onboarding_step)
+CREATE TABLE IF NOT EXISTS onboarding_sessions (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  goal TEXT,
+  binary_actions JSONB,
+  times JSONB,
+  shame_level INT,
+  draft_contract TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Risk intercept times proposed from failure patterns, awaiting the user's yes/no
+CREATE TABLE IF NOT EXISTS risk_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  local_time VARCHAR(5) NOT NULL,
+  failure_hour INT NOT NULL,
+  occurrences INT NOT NULL,
+  status VARCHAR(20) DEFAULT 'pending',
+  created_at TIMESTAMP DEFAULT NOW(),
+  decided_at TIMESTAMP
+);
+
+-- Changes to a day already settled with token losses, awaiting the referee
+CREATE TABLE IF NOT EXISTS score_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  referee_phone VARCHAR(50) NOT NULL,
+  code VARCHAR(8) NOT NULL,
+  date DATE NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  updates JSONB DEFAULT '[]',
+  undoes VARCHAR(40),
+  status VARCHAR(20) DEFAULT 'pending',
+  created_at TIMESTAMP DEFAULT NOW(),
+  decided_at TIMESTAMP
+);
+
+-- Columns added after the initial schema (safe to re-run on existing databases)
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS provider_sid VARCHAR(64);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_status VARCHAR(20);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_error VARCHAR(20);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_updated_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMP;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS media_url TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS media_content_type VARCHAR(100);
+ALTER TABLE daily_logs ADD COLUMN IF NOT EXISTS settled_at TIMESTAMP;
+ALTER TABLE daily_logs ADD COLUMN IF NOT EXISTS missed_lock_recorded BOOLEAN DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS week_start_day INT DEFAULT 1;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS review_started_at TIMESTAMP;
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS review_draft JSONB;
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS goal_pack VARCHAR(30);
+ALTER TABLE onboarding_sessions ADD COLUMN IF NOT EXISTS goal_pack VARCHAR(30);
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS punishment TEXT;
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS referee_phone VARCHAR(50);
+ALTER TABLE onboarding_sessions ADD COLUMN IF NOT EXISTS punishment TEXT;
+ALTER TABLE onboarding_sessions ADD COLUMN IF NOT EXISTS referee_phone VARCHAR(50);
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS punishment_notified_at TIMESTAMP;
+ALTER TABLE daily_logs ADD COLUMN IF NOT EXISTS action_values JSONB DEFAULT '{}';
+ALTER TABLE daily_logs ADD COLUMN IF NOT EXISTS score_audit JSONB DEFAULT '[]';
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_daily_logs_user_date ON daily_logs(user_id, date);
 CREATE INDEX IF NOT EXISTS idx_messages_user_created ON messages(user_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_patterns_user_type ON patterns(user_id, pattern_type);
 CREATE INDEX IF NOT EXISTS idx_tokens_user_week ON tokens(user_id, week_start);
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(active, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_user ON scheduled_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_risk_proposals_user ON risk_proposals(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_outbox_user_status ON outbox(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_messages_provider_sid ON messages(provider_sid);
+CREATE INDEX IF NOT EXISTS idx_score_approvals_referee ON score_approvals(referee_phone, status);
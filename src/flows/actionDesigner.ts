@@ -0,0 +1,141 @@
+import { BinaryAction, ActionComparator } from '../db/queries';
+import { extractBinaryActions, ExtractedAction } from '../services/llm';
+import { parseActionLine, isVagueAction, formatThreshold } from './contractEdits';
+
+// Turns the user's goal and free-text list into structured actions. The LLM
+// does the reading; the regex parser takes over when it fails. Anything that
+// can't be judged yes/no at night comes back as a question instead.
+
+export const DAILY_POINTS = 10;
+const MAX_ACTIONS = 10;
+
+export interface ActionDesign {
+  actions: BinaryAction[];
+  vague: { text: string; question: string }[];
+}
+
+export async function designActions(goal: string, text: string): Promise<ActionDesign> {
+  try {
+    const extracted = await extractBinaryActions(goal, text);
+    const design = fromExtracted(extracted);
+    if (design.actions.length > 0 || design.vague.length > 0) return design;
+  } catch (error) {
+    console.error('Action extraction failed, using parser:', error);
+  }
+
+  return designWithParser(text);
+}
+
+// Scales points so the actions add up to the stated daily total, keeping
+// their relative weight. Every action is worth at least 1 point.
+export function normalizePoints(actions: BinaryAction[], total: number = DAILY_POINTS): BinaryAction[] {
+  if (actions.length === 0) return actions;
+  if (actions.length >= total) return actions.map(a => ({ ...a, points: 1 }));
+
+  const weights = actions.map(a => Math.max(1, a.points));
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const shares = weights.map(w => (w / weightSum) * total);
+  const points = shares.map(s => Math.max(1, Math.floor(s)));
+
+  // Largest remainders take what rounding left over; the heaviest give
+  // back whatever the 1-point floor overspent
+  let left = total - points.reduce((a, b) => a + b, 0);
+  const byRemainder = shares
+    .map((s, i) => ({ i, remainder: s - Math.floor(s) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { i } of byRemainder) {
+    if (left <= 0) break;
+    points[i]++;
+    left--;
+  }
+
+  while (left < 0) {
+    const heaviest = points.indexOf(Math.max(...points));
+    points[heaviest]--;
+    left++;
+  }
+
+  return actions.map((a, i) => ({ ...a, points: points[i] }));
+}
+
+export function getTotalPoints(actions: BinaryAction[]): number {
+  return actions.reduce((a, b) => a + b.points, 0);
+}
+
+// Follow-up for the vague items, asked before moving on
+export function generateVagueFollowUp(design: ActionDesign): string {
+  const kept = design.actions.length > 0
+    ? `Got ${design.actions.map(a => a.name).join(', ')}.\n\n`
+    : '';
+
+  const questions = design.vague.map(v => `- "${v.text}": ${v.question}`).join('\n');
+
+  return `${kept}Too vague to score at night:
+${questions}
+
+Reply with the concrete version (a number or a clear yes/no), or "skip" to drop them.`;
+}
+
+function fromExtracted(extracted: ExtractedAction[]): ActionDesign {
+  const design: ActionDesign = { actions: [], vague: [] };
+
+  for (const item of extracted.slice(0, MAX_ACTIONS)) {
+    const name = item.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!name) continue;
+
+    if (item.vague) {
+      design.vague.push({
+        text: name.replace(/_/g, ' '),
+        question: item.followUp || 'What number or yes/no makes this done?',
+      });
+      continue;
+    }
+
+    // A numeric comparator without a number can't be checked; treat as done
+    const hasTarget = typeof item.target === 'number' && Number.isFinite(item.target);
+    const comparator: ActionComparator = hasTarget ? item.comparator : 'done';
+
+    const action: BinaryAction = {
+      name,
+      comparator,
+      points: Math.min(3, Math.max(1, Math.round(item.weight) || 1)),
+    };
+    if (hasTarget && comparator !== 'done') {
+      action.target = item.target!;
+      if (item.unit) action.unit = item.unit;
+    }
+    action.threshold = formatThreshold(action);
+
+    if (!design.actions.some(a => a.name === action.name)) design.actions.push(action);
+  }
+
+  return design;
+}
+
+function designWithParser(text: string): ActionDesign {
+  const design: ActionDesign = { actions: [], vague: [] };
+
+  for (const line of text.split('\n')) {
+    const action = parseActionLine(line);
+    if (!line.trim()) continue;
+
+    if (isVagueAction(line, action)) {
+      design.vague.push({
+        text: line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim(),
+        question: 'What number or yes/no makes this done?',
+      });
+      continue;
+    }
+
+    if (action && !design.actions.some(a => a.name === action.name)) {
+      design.actions.push(action);
+    }
+  }
+
+  // Same weighting as before: the first two matter most
+  design.actions.slice(0, 2).forEach(a => { a.points = 2; });
+  design.actions = design.actions.slice(0, MAX_ACTIONS);
+
+  return design;
+}
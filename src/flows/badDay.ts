@@ -1,27 +1,14 @@
-import { User, Contract, upsertDailyLog, recordPattern } from '../db/queries';
-
-export interface DownshiftRules {
-  caloriesMultiplier: number; // e.g., 1.25 = 25% more
-  proteinMandatory: boolean;
-  walkReduced: boolean;
-  strengthOptional: boolean;
-  noShameEscalation: boolean;
-}
-
-const DEFAULT_DOWNSHIFT: DownshiftRules = {
-  caloriesMultiplier: 1.25, // Allow 25% more calories
-  proteinMandatory: true,
-  walkReduced: true, // Reduced to 5k instead of 10k
-  strengthOptional: true,
-  noShameEscalation: true,
-};
+import { User, Contract, BinaryAction, upsertDailyLog, recordPattern } from '../db/queries';
+import { Reply } from '../services/messaging';
+import { getUserToday } from '../services/time';
+import { DownshiftRule, getContractPack } from './goalPacks';
 
 export async function handleBadDay(
   user: User,
   contract: Contract,
   reason?: string
-): Promise<string> {
-  const today = new Date().toISOString().split('T')[0];
+): Promise<Reply> {
+  const today = getUserToday(user);
 
   // Record the bad day pattern
   await recordPattern(user.id, 'bad_day', reason || 'declared bad day');
@@ -31,23 +18,42 @@ export async function handleBadDay(
     notes: `DOWNSHIFT: ${reason || 'bad day declared'}`,
   });
 
-  // Generate modified targets
-  const baseCalories = extractCalorieTarget(contract);
-  const newCalories = Math.round(baseCalories * DEFAULT_DOWNSHIFT.caloriesMultiplier);
+  // Generate modified targets from the goal pack's downshift rules
+  const rules = getDownshiftRules(contract);
+  const lines = contract.binary_actions.map(a => `✓ ${a.name}: ${describeDownshift(a, rules)}`);
 
-  return `Bad day acknowledged.
+  return {
+    body: `Bad day acknowledged.
 
 Downshift protocol active:
 
-✓ Calories: ${newCalories} (up from ${baseCalories})
-✓ Protein: STILL MANDATORY
-✓ Walk: Reduced to 5k minimum
-✓ Strength: Optional today
+${lines.join('\n')}
 ✓ No shame escalation
 
 This is not failure. This is strategic retreat.
 
-What's the ONE thing you'll still accomplish today?`;
+What's the ONE thing you'll still accomplish today?`,
+    // WhatsApp list pickers hold at most 10 items
+    list: {
+      button: 'Pick one',
+      items: contract.binary_actions.slice(0, 10).map(a => ({
+        id: `badday:one:${a.name}`,
+        title: a.name,
+        description: a.threshold,
+      })),
+    },
+  };
+}
+
+// Payload: badday:one:<action>, the ONE thing picked from the downshift list
+export async function handleBadDayPayload(user: User, payload: string): Promise<string> {
+  const [, , actionName] = payload.split(':');
+
+  await recordPattern(user.id, 'downshift_commitment', actionName);
+
+  return `Locked in: ${actionName}.
+
+That's the one thing today. Tell me when it's done.`;
 }
 
 export function detectBadDayRequest(message: string): boolean {
@@ -72,23 +78,36 @@ export function detectBadDayRequest(message: string): boolean {
   return triggers.some(t => lower.includes(t));
 }
 
-export function getDownshiftRules(): DownshiftRules {
-  return { ...DEFAULT_DOWNSHIFT };
+export function getDownshiftRules(contract: Contract): DownshiftRule[] {
+  return getContractPack(contract).downshift;
 }
 
-function extractCalorieTarget(contract: Contract): number {
-  const calorieAction = contract.binary_actions.find(
-    a => a.name.toLowerCase().includes('calorie')
-  );
+// Actions the pack doesn't name are optional on a bad day
+function describeDownshift(action: BinaryAction, rules: DownshiftRule[]): string {
+  const rule = rules.find(r => r.action === action.name);
+  if (!rule || rule.mode === 'optional') return 'Optional today';
+  if (rule.mode === 'mandatory') return 'STILL MANDATORY';
 
-  if (calorieAction?.threshold) {
-    const match = calorieAction.threshold.match(/(\d{3,4})/);
-    if (match) {
-      return parseInt(match[1], 10);
-    }
+  const factor = rule.factor ?? 1;
+  const target = getTarget(action);
+  if (target === null) {
+    return factor > 1 ? 'Cap raised today' : 'Reduced to the minimum';
   }
 
-  return 2000; // Default
+  const scaled = Math.round(target * factor);
+  const unit = action.unit ? ` ${action.unit}` : '';
+  return factor > 1
+    ? `${scaled}${unit} (up from ${target})`
+    : `Reduced to ${scaled}${unit}`;
+}
+
+// Structured target, or the first number in an older free-text threshold
+function getTarget(action: BinaryAction): number | null {
+  if (action.target !== undefined) return action.target;
+
+  const match = action.threshold?.match(/(\d+(?:\.\d+)?)\s*(k)?\b/i);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2] ? 1000 : 1);
 }
 
 export function isDownshiftDay(notes: string | null): boolean {
@@ -99,7 +118,7 @@ export async function handleDownshiftCompletion(
   user: User,
   oneThingDone: string
 ): Promise<string> {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getUserToday(user);
 
   await recordPattern(user.id, 'downshift_completion', oneThingDone);
 
@@ -0,0 +1,259 @@
+import { BinaryAction } from '../db/queries';
+
+// Parsing and editing a contract's binary actions, shared by onboarding, its
+// revision loop and the weekly review. Edits go one per line:
+//   drop photo | add meditate 10 min | swap creatine for read 20 pages
+//   change walk to 12k steps | make walk worth 2 points
+
+// Deterministic parser: one action per line, with the comparator, target
+// and unit pulled out where there is a number ("calories under 2000",
+// "10k steps", "protein 150g"). Also the designer's fallback when the LLM
+// is unavailable.
+export function parseBinaryActions(message: string): BinaryAction[] {
+  const actions = message
+    .split('\n')
+    .map(parseActionLine)
+    .filter((a): a is BinaryAction => a !== null);
+
+  // Assign points (first 2 get 2 points each)
+  if (actions.length >= 2) {
+    actions[0].points = 2;
+    actions[1].points = 2;
+  }
+
+  return actions;
+}
+
+const AT_MOST = /\b(under|below|less than|at most|max(?:imum)?|no more than|cap(?:ped)?(?: at)?)\b|<=?/i;
+
+// Canonical units, keyed by how people write them
+const UNITS: Record<string, string> = {
+  steps: 'steps', step: 'steps',
+  kcal: 'kcal', cal: 'kcal', cals: 'kcal', calories: 'kcal', calorie: 'kcal',
+  g: 'g', gr: 'g', grams: 'g', gram: 'g',
+  min: 'min', mins: 'min', minutes: 'min', minute: 'min',
+  h: 'hours', hr: 'hours', hrs: 'hours', hours: 'hours', hour: 'hours',
+  pages: 'pages', page: 'pages',
+  l: 'L', liters: 'L', litres: 'L',
+  glasses: 'glasses', cigarettes: 'cigarettes', drinks: 'drinks', reps: 'reps',
+  km: 'km', miles: 'miles',
+};
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'per', 'day', 'daily', 'each', 'every', 'to', 'in', 'my', 'i', 'and', 'or',
+  'than', 'least', 'most', 'no', 'more', 'less', 'under', 'over', 'below', 'above', 'at', 'max',
+  'maximum', 'min', 'minimum', 'hit', 'reach', 'cap', 'capped', 'done', 'completed',
+]);
+
+export function parseActionLine(line: string): BinaryAction | null {
+  // Strip bullets and list numbering ("1." / "2)"), not leading quantities
+  const cleaned = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim();
+  if (!cleaned) return null;
+
+  const [quantity] = parseQuantities(cleaned);
+  const target = quantity?.value;
+  let unit = quantity?.unit;
+
+  // "calories under 2000": the unit can come before the number
+  const lowerWords = cleaned.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const unitWord = lowerWords.find(w => UNITS[w]);
+  if (target !== undefined && !unit && unitWord) unit = UNITS[unitWord];
+
+  const comparator = target === undefined
+    ? 'done'
+    : AT_MOST.test(cleaned) ? 'at_most' : 'at_least';
+
+  // Name from the words that aren't the rule itself
+  const words = cleaned
+    .toLowerCase()
+    .replace(/\d+(?:[.,]\d+)*\s*k?\b/g, ' ')
+    .split(/[^a-z]+/)
+    .filter(w => w && !FILLER_WORDS.has(w) && !UNITS[w]);
+
+  const name = words.slice(0, 2).join('_') || unitWord || 'action';
+
+  const action: BinaryAction = { name, comparator, points: 1 };
+  if (target !== undefined) action.target = target;
+  if (unit) action.unit = unit;
+  action.threshold = formatThreshold(action);
+
+  return action;
+}
+
+export interface Quantity {
+  value: number;
+  unit?: string; // canonical, see UNITS
+}
+
+// Every amount in the text: "10k steps", "1,800 kcal", "140g", "2.5 km".
+// Clock times ("7pm", "6:30") are not amounts.
+export function parseQuantities(text: string): Quantity[] {
+  const quantities: Quantity[] = [];
+  const pattern = /(?<![\d:.,])(\d{1,3}(?:,\d{3})+|\d+(?:[.,]\d+)?)\s*(k\b)?\s*([a-z]+)?(?![\d:])/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const word = match[3]?.toLowerCase();
+    if (word === 'am' || word === 'pm') continue;
+
+    const digits = /^\d{1,3}(?:,\d{3})+$/.test(match[1]) ? match[1].replace(/,/g, '') : match[1].replace(',', '.');
+    quantities.push({
+      value: parseFloat(digits) * (match[2] ? 1000 : 1),
+      unit: word ? UNITS[word] : undefined,
+    });
+  }
+
+  return quantities;
+}
+
+export interface ActionRule {
+  comparator: 'at_most' | 'at_least';
+  target: number;
+  unit?: string;
+}
+
+// The numeric rule an action is judged by: its structured fields, or for
+// contracts from before those existed, whatever its threshold text says
+// ("10k steps"). Null for yes/no actions.
+export function getActionRule(action: BinaryAction): ActionRule | null {
+  if (action.comparator && action.comparator !== 'done' && action.target !== undefined) {
+    return { comparator: action.comparator, target: action.target, unit: action.unit };
+  }
+  if (action.comparator === 'done' || !action.threshold) return null;
+
+  const parsed = parseActionLine(`${action.name} ${action.threshold}`);
+  if (!parsed || parsed.comparator === 'done' || parsed.target === undefined) return null;
+  return { comparator: parsed.comparator!, target: parsed.target, unit: parsed.unit };
+}
+
+export function meetsRule(rule: ActionRule, value: number): boolean {
+  return rule.comparator === 'at_most' ? value <= rule.target : value >= rule.target;
+}
+
+// Converts between units people mix up; null when they can't be compared
+// (km logged against a steps target). A bare number is taken as the target's unit.
+export function convertQuantity(quantity: Quantity, to?: string): number | null {
+  const from = quantity.unit;
+  if (!from || !to || from === to) return quantity.value;
+
+  const factors: Record<string, number> = {
+    'hours>min': 60,
+    'min>hours': 1 / 60,
+    'miles>km': 1.609,
+    'km>miles': 1 / 1.609,
+  };
+  const factor = factors[`${from}>${to}`];
+  return factor ? Math.round(quantity.value * factor * 100) / 100 : null;
+}
+
+// "eat better", "try to sleep more": no number and no concrete yes/no act
+const VAGUE_PATTERN = /\b(better|healthier|healthy|more|less|properly|clean(?:er)?|improve|try|cut down|reduce|good|well|when i can|as much as)\b/i;
+
+export function isVagueAction(line: string, action: BinaryAction | null): boolean {
+  if (!action) return true;
+  return action.comparator === 'done' && VAGUE_PATTERN.test(line);
+}
+
+export function formatThreshold(action: BinaryAction): string {
+  if (!action.comparator || action.comparator === 'done' || action.target === undefined) {
+    return action.threshold && action.comparator !== 'done' ? action.threshold : 'done';
+  }
+
+  if (action.comparator === 'at_most' && action.target === 0) {
+    return action.unit ? `no ${action.unit}` : 'none';
+  }
+
+  const amount = `${action.target}${action.unit ? ` ${action.unit}` : ''}`;
+  return action.comparator === 'at_most' ? `under ${amount}` : `at least ${amount}`;
+}
+
+export interface ActionEdits {
+  actions: BinaryAction[];
+  changes: string[];
+  unrecognized: string[];
+}
+
+export function applyActionEdits(actions: BinaryAction[], message: string): ActionEdits {
+  const result: ActionEdits = { actions, changes: [], unrecognized: [] };
+
+  for (const line of message.split(/\n|;/).map(l => l.replace(/^[-*•\s]+/, '').trim())) {
+    if (!line) continue;
+
+    const edit = applyActionEdit(result.actions, line);
+    if (edit) {
+      result.actions = edit.actions;
+      result.changes.push(edit.change);
+    } else {
+      result.unrecognized.push(line);
+    }
+  }
+
+  return result;
+}
+
+// Null if the line isn't an edit or names an action that doesn't exist
+export function applyActionEdit(
+  actions: BinaryAction[],
+  line: string
+): { actions: BinaryAction[]; change: string } | null {
+  const text = line.trim();
+  const next = actions.map(a => ({ ...a }));
+
+  const drop = text.match(/^(?:drop|remove|delete)\s+(.+)$/i);
+  if (drop) {
+    const index = findAction(next, drop[1]);
+    if (index < 0) return null;
+    const [removed] = next.splice(index, 1);
+    return { actions: next, change: `Removed ${removed.name}` };
+  }
+
+  const add = text.match(/^add\s+(.+)$/i);
+  if (add) {
+    const [action] = parseBinaryActions(add[1]);
+    if (!action || findAction(next, action.name) >= 0) return null;
+    return { actions: [...next, action], change: `Added ${action.name}` };
+  }
+
+  const swap = text.match(/^(?:swap|replace)\s+(.+?)\s+(?:for|with)\s+(.+)$/i);
+  if (swap) {
+    const index = findAction(next, swap[1]);
+    const [action] = parseBinaryActions(swap[2]);
+    if (index < 0 || !action) return null;
+    const old = next[index].name;
+    next[index] = { ...action, points: next[index].points };
+    return { actions: next, change: `Swapped ${old} for ${action.name}` };
+  }
+
+  // Before thresholds: "set walk to 2 points" is about points
+  const points = text.match(/^(?:make|set|give)?\s*(.+?)\s+(?:worth|to|=)?\s*(\d+)\s*(?:pts?|points?)$/i);
+  if (points) {
+    const index = findAction(next, points[1]);
+    const value = parseInt(points[2], 10);
+    if (index < 0 || value < 1) return null;
+    next[index].points = value;
+    return { actions: next, change: `${next[index].name} now ${value} pts` };
+  }
+
+  const threshold = text.match(/^(?:tighten|loosen|change|set|make)\s+(.+?)\s+(?:to|:)\s*(.+)$/i);
+  if (threshold) {
+    const index = findAction(next, threshold[1]);
+    if (index < 0) return null;
+    const rule = parseActionLine(threshold[2]);
+    next[index] = rule && rule.target !== undefined
+      ? { ...next[index], comparator: rule.comparator, target: rule.target, unit: rule.unit ?? next[index].unit }
+      : { ...next[index], threshold: threshold[2].trim() };
+    next[index].threshold = rule && rule.target !== undefined ? formatThreshold(next[index]) : next[index].threshold;
+    return { actions: next, change: `${next[index].name}: ${next[index].threshold}` };
+  }
+
+  return null;
+}
+
+export function formatActions(actions: BinaryAction[]): string {
+  return actions.map(a => `- ${a.name}: ${a.threshold || 'completed'} (${a.points} pts)`).join('\n');
+}
+
+function findAction(actions: BinaryAction[], name: string): number {
+  const spoken = name.trim().toLowerCase();
+  const key = spoken.replace(/\s+/g, '_');
+  return actions.findIndex(a => a.name === key || a.name.replace(/_/g, ' ') === spoken);
+}
@@ -0,0 +1,221 @@
+import {
+  User,
+  Contract,
+  BinaryAction,
+  getLogsInRange,
+  startContractReview,
+  updateContractReviewDraft,
+  closeContract,
+  createContract,
+} from '../db/queries';
+import { withTransaction } from '../db/client';
+import { Reply } from '../services/messaging';
+import { addDays, getLocalDate } from '../services/time';
+import { generateContractText } from './onboarding';
+import { applyActionEdits, formatActions } from './contractEdits';
+
+// A contract is locked for its week. When it expires the user gets a review
+// window: stats, suggestions, and the only chance to edit the actions before
+// the next contract is locked. The old contract stays in force until then.
+
+export function isContractExpired(contract: Contract, at: Date = new Date()): boolean {
+  return !!contract.expires_at && new Date(contract.expires_at).getTime() <= at.getTime();
+}
+
+export function isInReview(contract: Contract): boolean {
+  return contract.active && !!contract.review_started_at;
+}
+
+// Opens the review for an expired contract. Null if it is already open.
+export async function startReview(user: User, contract: Contract): Promise<Reply | null> {
+  const opened = await startContractReview(contract.id);
+  if (!opened) return null;
+
+  const summary = await generateReviewSummary(user, opened);
+
+  return {
+    body: `Contract review. Your week is up.
+
+${summary}
+
+This is the only window to change your contract. Send changes one at a time:
+- "tighten walk to 12k steps"
+- "swap creatine for read 20 pages"
+- "drop photo"
+- "add meditate 10 min"
+
+Or reply KEEP to run the same contract again.`,
+    buttons: [
+      { id: 'review:keep', title: 'Keep as is' },
+      { id: 'review:edit', title: 'Make changes' },
+    ],
+  };
+}
+
+export async function handleContractReview(
+  user: User,
+  contract: Contract,
+  message: string
+): Promise<Reply> {
+  const lower = message.trim().toLowerCase();
+
+  if (lower === 'keep') {
+    return await lockNextContract(user, contract, contract.binary_actions);
+  }
+
+  if (lower === 'locked' || lower === 'lock it') {
+    return await lockNextContract(user, contract, contract.review_draft || contract.binary_actions);
+  }
+
+  const edits = applyActionEdits(contract.review_draft || contract.binary_actions, message);
+  const draft = edits.actions;
+  if (edits.changes.length === 0) {
+    return `I didn't catch that change. Try "tighten walk to 12k steps", "swap X for Y", "drop X" or "add X".
+
+Reply KEEP to run the same contract again.`;
+  }
+
+  if (draft.length === 0) {
+    return "That would leave no actions. A contract needs at least one.";
+  }
+
+  await updateContractReviewDraft(contract.id, draft);
+
+  const skipped = edits.unrecognized.length > 0
+    ? `\nCouldn't apply: ${edits.unrecognized.join('; ')}\n`
+    : '';
+
+  return {
+    body: `Updated: ${edits.changes.join(', ')}.
+${skipped}
+Next contract:
+${formatActions(draft)}
+
+More changes, or reply LOCKED to start the new week.`,
+    buttons: [{ id: 'review:lock', title: 'LOCKED' }],
+  };
+}
+
+export async function handleContractReviewPayload(
+  user: User,
+  contract: Contract,
+  payload: string
+): Promise<Reply> {
+  const [, choice] = payload.split(':');
+
+  switch (choice) {
+    case 'keep':
+      return await handleContractReview(user, contract, 'keep');
+
+    case 'lock':
+      return await handleContractReview(user, contract, 'locked');
+
+    default:
+      return `Send your changes one at a time:
+- "tighten walk to 12k steps"
+- "swap creatine for read 20 pages"
+- "drop photo"
+- "add meditate 10 min"`;
+  }
+}
+
+// Review edits ("drop", "add", "swap", "tighten"); outside the window the
+// same phrasing is a mid-week change request
+export function detectContractChangeRequest(message: string): boolean {
+  const lower = message.toLowerCase().trim();
+
+  if (/^(drop|remove|add|swap|replace|tighten|loosen|change)\b/.test(lower)) {
+    return true;
+  }
+
+  return /\b(change|edit|modify|update|renegotiate|swap|replace|drop|remove)\b.*\b(contract|actions?|goal|targets?|rules?|thresholds?)\b/.test(lower);
+}
+
+export function generateMidWeekRejection(user: User, contract: Contract): string {
+  const lockedOn = formatDate(user, contract.locked_at);
+  const reviewOn = contract.expires_at ? formatDate(user, contract.expires_at) : 'the end of the week';
+
+  return `No renegotiation mid-week. You locked this contract on ${lockedOn}.
+
+It runs until ${reviewOn}. That's when you can change it, not before.`;
+}
+
+async function lockNextContract(
+  user: User,
+  contract: Contract,
+  actions: BinaryAction[]
+): Promise<string> {
+  // Punishment and referee carry over; only the actions are up for review
+  const data = {
+    goal: contract.goal,
+    binaryActions: actions,
+    punishment: contract.punishment,
+    refereePhone: contract.referee_phone,
+  };
+
+  // Together or not at all: a failed insert mustn't leave no active contract
+  const next = await withTransaction(async () => {
+    if (!(await closeContract(contract.id))) return null;
+
+    return await createContract(
+      user.id,
+      contract.goal,
+      actions,
+      generateContractText(user, data, user.shame_level),
+      { goalPack: contract.goal_pack, punishment: contract.punishment, refereePhone: contract.referee_phone }
+    );
+  });
+
+  if (!next) {
+    return 'Your new contract is already locked.';
+  }
+
+  return `New contract locked until ${formatDate(user, next.expires_at!)}.
+
+${formatActions(actions)}
+
+No renegotiation until then.`;
+}
+
+async function generateReviewSummary(user: User, contract: Contract): Promise<string> {
+  const from = getLocalDate(user.timezone, new Date(contract.locked_at));
+  const to = addDays(getLocalDate(user.timezone, new Date(contract.expires_at!)), -1);
+  const logs = await getLogsInRange(user.id, from, to);
+
+  // Days without a log count as misses
+  const days = Math.max(1, daysBetween(from, to) + 1);
+  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+  const totalScored = logs.reduce((a, b) => a + b.total_score, 0);
+  const percentage = Math.round((totalScored / (days * totalPossible)) * 100);
+  const lockedCount = logs.filter(l => l.tomorrow_locked).length;
+
+  const lines = contract.binary_actions.map(action => {
+    const hits = logs.filter(l => (l.scores[action.name] || 0) > 0).length;
+    const rate = hits / days;
+
+    if (rate >= 0.85) return `- ${action.name}: ${hits}/${days} ✓ too easy? Tighten it`;
+    if (rate < 0.5) return `- ${action.name}: ${hits}/${days} ✗ failing. Swap it or shrink it`;
+    return `- ${action.name}: ${hits}/${days}`;
+  });
+
+  return `${from} to ${to}
+Score: ${totalScored}/${days * totalPossible} (${percentage}%)
+Locked nights: ${lockedCount}/${days}
+
+Per action:
+${lines.join('\n')}`;
+}
+
+function formatDate(user: User, at: Date): string {
+  const date = getLocalDate(user.timezone, new Date(at));
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
@@ -0,0 +1,308 @@
+import { BinaryAction, Contract, TomorrowPlan } from '../db/queries';
+
+// Curated starting points per goal type: default actions, what a bad day
+// relaxes, what the nightly lock asks about tomorrow and when people with
+// this goal tend to slip. Onboarding offers the pack; the user edits from there.
+
+export type GoalPackId = 'fat_loss' | 'strength' | 'quit_smoking' | 'sobriety' | 'sleep' | 'deep_work';
+
+// mandatory: still owed on a bad day; optional: off the hook;
+// scaled: numeric target multiplied by factor (above 1 loosens a cap)
+export interface DownshiftRule {
+  action: string;
+  mode: 'mandatory' | 'optional' | 'scaled';
+  factor?: number;
+}
+
+// One nightly "lock tomorrow" question; answers are stored under key
+export interface PlanQuestion {
+  key: string;
+  label: string;
+  emoji: string;
+  question: string;
+  match: RegExp; // how a labelled answer starts ("walk: 7am")
+  yesNo?: boolean;
+  fallback: string;
+}
+
+export interface GoalPack {
+  id: GoalPackId;
+  name: string;
+  keywords: RegExp;
+  actions: BinaryAction[];
+  downshift: DownshiftRule[];
+  planQuestions: PlanQuestion[];
+  riskTimes: { time: string; why: string }[];
+}
+
+const DANGER_QUESTION: PlanQuestion = {
+  key: 'danger_moment',
+  label: 'Watch for',
+  emoji: '⚠️',
+  question: 'One danger moment you anticipate?',
+  match: /\b(?:danger|watch for|risk)\b/i,
+  fallback: 'evening',
+};
+
+export const GOAL_PACKS: GoalPack[] = [
+  {
+    id: 'fat_loss',
+    name: 'Fat loss',
+    keywords: /\b(fat|weight|lose|losing|cut|cutting|lean|diet|kg|lbs?|pounds)\b/i,
+    actions: [
+      { name: 'calories', comparator: 'at_most', target: 2000, unit: 'kcal', threshold: 'under 2000 kcal', points: 2 },
+      { name: 'protein', comparator: 'at_least', target: 150, unit: 'g', threshold: 'at least 150 g', points: 2 },
+      { name: 'walk', comparator: 'at_least', target: 10000, unit: 'steps', threshold: 'at least 10000 steps', points: 1 },
+      { name: 'strength', comparator: 'done', threshold: 'completed', points: 1 },
+      { name: 'creatine', comparator: 'done', threshold: 'taken', points: 1 },
+      { name: 'fasting', comparator: 'done', threshold: 'in window', points: 1 },
+      { name: 'weigh_in', comparator: 'done', threshold: 'done', points: 1 },
+      { name: 'photo', comparator: 'done', threshold: 'taken', points: 1 },
+    ],
+    downshift: [
+      { action: 'calories', mode: 'scaled', factor: 1.25 },
+      { action: 'protein', mode: 'mandatory' },
+      { action: 'walk', mode: 'scaled', factor: 0.5 },
+    ],
+    planQuestions: [
+      { key: 'eating_window', label: 'Eating', emoji: '📍', question: 'Eating window?', match: /\beat(?:ing)?(?: window)?\b/i, fallback: '12pm-8pm' },
+      { key: 'first_meal', label: 'First meal', emoji: '🍽️', question: 'First meal time and what?', match: /\bfirst(?: (?:protein )?meal)?\b/i, fallback: '12pm' },
+      { key: 'walk_time', label: 'Walk', emoji: '🚶', question: 'Walk: when?', match: /\bwalk\b/i, fallback: 'morning' },
+      { key: 'strength', label: 'Strength', emoji: '💪', question: 'Strength: yes/no?', match: /\bstrength\b/i, yesNo: true, fallback: 'no' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '15:00', why: 'afternoon snack slump' },
+      { time: '21:00', why: 'late-night eating' },
+    ],
+  },
+  {
+    id: 'strength',
+    name: 'Strength',
+    keywords: /\b(strength|strong|stronger|muscle|bulk|lift|lifting|gym|squat|bench|deadlift)\b/i,
+    actions: [
+      { name: 'training', comparator: 'done', threshold: 'session done', points: 3 },
+      { name: 'protein', comparator: 'at_least', target: 150, unit: 'g', threshold: 'at least 150 g', points: 2 },
+      { name: 'sleep', comparator: 'at_least', target: 7, unit: 'hours', threshold: 'at least 7 hours', points: 2 },
+      { name: 'steps', comparator: 'at_least', target: 8000, unit: 'steps', threshold: 'at least 8000 steps', points: 1 },
+      { name: 'creatine', comparator: 'done', threshold: 'taken', points: 1 },
+      { name: 'log_lifts', comparator: 'done', threshold: 'sets written down', points: 1 },
+    ],
+    downshift: [
+      { action: 'protein', mode: 'mandatory' },
+      { action: 'sleep', mode: 'mandatory' },
+      { action: 'steps', mode: 'scaled', factor: 0.5 },
+    ],
+    planQuestions: [
+      { key: 'session', label: 'Session', emoji: '🏋️', question: 'Training: what and when?', match: /\b(?:training|session|train)\b/i, fallback: 'rest day' },
+      { key: 'first_meal', label: 'First meal', emoji: '🍽️', question: 'First protein meal: time and what?', match: /\bfirst(?: (?:protein )?meal)?\b/i, fallback: 'breakfast' },
+      { key: 'bedtime', label: 'Bed', emoji: '🛏️', question: 'Lights out at?', match: /\b(?:bed|lights out)\b/i, fallback: 'usual time' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '17:30', why: 'skipping the gym after work' },
+      { time: '22:30', why: 'staying up past bedtime' },
+    ],
+  },
+  {
+    id: 'quit_smoking',
+    name: 'Quit smoking',
+    keywords: /\b(smok\w*|cigarettes?|cigs?|nicotine|vap\w*|tobacco)\b/i,
+    actions: [
+      { name: 'cigarettes', comparator: 'at_most', target: 0, unit: 'cigarettes', threshold: 'no cigarettes', points: 4 },
+      { name: 'delay_cravings', comparator: 'done', threshold: 'waited 10 min on every craving', points: 2 },
+      { name: 'log_cravings', comparator: 'done', threshold: 'every craving written down', points: 2 },
+      { name: 'walk', comparator: 'at_least', target: 5000, unit: 'steps', threshold: 'at least 5000 steps', points: 1 },
+      { name: 'water', comparator: 'at_least', target: 8, unit: 'glasses', threshold: 'at least 8 glasses', points: 1 },
+    ],
+    downshift: [
+      { action: 'cigarettes', mode: 'mandatory' },
+      { action: 'delay_cravings', mode: 'mandatory' },
+    ],
+    planQuestions: [
+      { key: 'trigger', label: 'Trigger', emoji: '🎯', question: 'Biggest trigger tomorrow (coffee, break, drinks)?', match: /\btrigger\b/i, fallback: 'after meals' },
+      { key: 'replacement', label: 'Instead', emoji: '🔁', question: 'What you do instead when it hits?', match: /\binstead\b/i, fallback: 'walk 5 minutes' },
+      { key: 'support', label: 'Text', emoji: '📱', question: 'Who you text if it gets bad?', match: /\b(?:text|check in(?: with)?|support)\b/i, fallback: 'me' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '08:00', why: 'first coffee' },
+      { time: '13:00', why: 'after lunch' },
+      { time: '19:30', why: 'after dinner' },
+    ],
+  },
+  {
+    id: 'sobriety',
+    name: 'Sobriety',
+    keywords: /\b(sober|sobriety|alcohol|drink|drinking|booze|beer|wine|aa)\b/i,
+    actions: [
+      { name: 'drinks', comparator: 'at_most', target: 0, unit: 'drinks', threshold: 'no drinks', points: 5 },
+      { name: 'support_checkin', comparator: 'done', threshold: 'talked to someone who knows', points: 2 },
+      { name: 'evening_plan', comparator: 'done', threshold: 'evening planned before 5pm', points: 2 },
+      { name: 'log_mood', comparator: 'done', threshold: 'done', points: 1 },
+    ],
+    downshift: [
+      { action: 'drinks', mode: 'mandatory' },
+      { action: 'support_checkin', mode: 'mandatory' },
+    ],
+    planQuestions: [
+      { key: 'evening', label: 'Evening', emoji: '🌆', question: 'What are you doing tomorrow evening?', match: /\bevening\b/i, fallback: 'home' },
+      { key: 'support', label: 'Check in with', emoji: '📞', question: 'Who you check in with?', match: /\b(?:text|check in(?: with)?|support)\b/i, fallback: 'me' },
+      { key: 'instead', label: 'Drink instead', emoji: '🥤', question: 'What you drink instead?', match: /\b(?:drink instead|instead)\b/i, fallback: 'sparkling water' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '17:30', why: 'after work' },
+      { time: '21:00', why: 'late evening' },
+    ],
+  },
+  {
+    id: 'sleep',
+    name: 'Sleep',
+    keywords: /\b(sleep|sleeping|insomnia|bedtime|rest|tired|night owl)\b/i,
+    actions: [
+      { name: 'bedtime', comparator: 'done', threshold: 'in bed by sleep time', points: 3 },
+      { name: 'wake_time', comparator: 'done', threshold: 'up at wake time, weekends too', points: 2 },
+      { name: 'screens_off', comparator: 'done', threshold: '60 min before bed', points: 2 },
+      { name: 'caffeine', comparator: 'done', threshold: 'none after 2pm', points: 2 },
+      { name: 'sunlight', comparator: 'at_least', target: 10, unit: 'min', threshold: 'at least 10 min', points: 1 },
+    ],
+    downshift: [
+      { action: 'wake_time', mode: 'mandatory' },
+      { action: 'caffeine', mode: 'mandatory' },
+    ],
+    planQuestions: [
+      { key: 'last_caffeine', label: 'Last caffeine', emoji: '☕', question: 'Last caffeine at?', match: /\b(?:caffeine|coffee)\b/i, fallback: '2pm' },
+      { key: 'screens_off', label: 'Screens off', emoji: '📵', question: 'Screens off at?', match: /\bscreens?(?: off)?\b/i, fallback: 'an hour before bed' },
+      { key: 'wind_down', label: 'Wind-down', emoji: '🌙', question: 'Wind-down routine?', match: /\bwind[- ]?down\b/i, fallback: 'read' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '14:00', why: 'last coffee' },
+      { time: '21:30', why: 'one more episode' },
+    ],
+  },
+  {
+    id: 'deep_work',
+    name: 'Deep work',
+    keywords: /\b(deep work|focus|study|studying|write|writing|procrastinat\w*|productiv\w*|code|coding|thesis|exam)\b/i,
+    actions: [
+      { name: 'deep_work', comparator: 'at_least', target: 90, unit: 'min', threshold: 'at least 90 min', points: 4 },
+      { name: 'phone_away', comparator: 'done', threshold: 'other room during the block', points: 2 },
+      { name: 'plan_tasks', comparator: 'done', threshold: 'top task picked the night before', points: 2 },
+      { name: 'social_media', comparator: 'at_most', target: 30, unit: 'min', threshold: 'under 30 min', points: 2 },
+    ],
+    downshift: [
+      { action: 'deep_work', mode: 'scaled', factor: 0.33 },
+    ],
+    planQuestions: [
+      { key: 'block', label: 'Block', emoji: '⏱️', question: 'Deep work block: when?', match: /\b(?:block|deep work)\b/i, fallback: 'morning' },
+      { key: 'first_task', label: 'First task', emoji: '📝', question: 'The ONE task you start with?', match: /\b(?:first )?task\b/i, fallback: 'top task' },
+      { key: 'where', label: 'Where', emoji: '📍', question: 'Where you work from?', match: /\bwhere\b/i, fallback: 'desk' },
+      DANGER_QUESTION,
+    ],
+    riskTimes: [
+      { time: '10:30', why: 'first distraction' },
+      { time: '15:00', why: 'afternoon slump' },
+    ],
+  },
+];
+
+const DETECTION_ORDER: GoalPackId[] = ['quit_smoking', 'sobriety', 'sleep', 'deep_work', 'strength', 'fat_loss'];
+
+// Contracts from before packs were all fat-loss shaped
+export const DEFAULT_GOAL_PACK = GOAL_PACKS[0];
+
+export function getGoalPack(id: string | null | undefined): GoalPack | null {
+  return GOAL_PACKS.find(p => p.id === id) || null;
+}
+
+// A pick from the list: the pack's number ("3"), name or id
+export function findGoalPack(text: string): GoalPack | null {
+  const pick = text.trim().toLowerCase();
+
+  const index = parseInt(pick, 10);
+  if (/^\d+$/.test(pick) && index >= 1 && index <= GOAL_PACKS.length) {
+    return GOAL_PACKS[index - 1];
+  }
+
+  return GOAL_PACKS.find(p => p.name.toLowerCase() === pick || p.id === pick) || null;
+}
+
+// Picks a pack from a goal in the user's words. Narrow goals are checked
+// first: "cut down smoking" is not a diet.
+export function detectGoalPack(goal: string): GoalPack | null {
+  return findGoalPack(goal)
+    || DETECTION_ORDER.map(id => getGoalPack(id)!).find(p => p.keywords.test(goal))
+    || null;
+}
+
+export function getContractPack(contract: Contract): GoalPack {
+  return getGoalPack(contract.goal_pack) || detectGoalPack(contract.goal) || DEFAULT_GOAL_PACK;
+}
+
+export function formatPackList(): string {
+  return GOAL_PACKS.map((p, i) => `${i + 1}. ${p.name}`).join('\n');
+}
+
+export function formatRiskSuggestions(pack: GoalPack): string {
+  const times = pack.riskTimes.map(r => `${formatClock(r.time)} (${r.why})`).join(', ');
+  return `Common danger zones for ${pack.name.toLowerCase()}: ${times}.`;
+}
+
+function formatClock(time: string): string {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  return minutes
+    ? `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')}${suffix}`
+    : `${hours % 12 || 12}${suffix}`;
+}
+
+export function generatePlanPrompt(pack: GoalPack): string {
+  const questions = pack.planQuestions.map((q, i) => `${i + 1}. ${q.question}`).join('\n');
+
+  return `Now lock tomorrow:
+
+${questions}
+
+Be specific. "Morning" is not a time.`;
+}
+
+// Answers can be labelled ("walk: 7am"), numbered ("3. 7am") or just one
+// line per question in order. Anything unanswered gets the fallback.
+export function parsePlan(pack: GoalPack, message: string): TomorrowPlan {
+  const lines = message.split(/\n|;/).map(l => l.trim()).filter(Boolean);
+  const plan: TomorrowPlan = { danger_moment: DANGER_QUESTION.fallback };
+
+  pack.planQuestions.forEach((q, i) => {
+    let answer: string | undefined;
+
+    // A line that starts with the label beats one that mentions it
+    const stripped = lines.map(l => l.replace(/^\d+[.)]\s*/, ''));
+    const line = stripped.find(l => l.search(q.match) === 0) || stripped.find(l => q.match.test(l));
+    if (line) {
+      const match = line.match(q.match)!;
+      answer = line.slice(match.index! + match[0].length).replace(/^[\s:=-]+/, '').trim();
+    } else {
+      const numbered = lines.find(l => l.startsWith(`${i + 1}.`) || l.startsWith(`${i + 1})`));
+      if (numbered) answer = numbered.slice(2).trim();
+      else if (lines.length === pack.planQuestions.length) answer = lines[i];
+    }
+
+    plan[q.key] = q.yesNo
+      ? /^(?:yes|y|✓|true)\b/i.test(answer || q.fallback)
+      : answer || q.fallback;
+  });
+
+  return plan;
+}
+
+export function formatPlan(pack: GoalPack, plan: TomorrowPlan): string {
+  return pack.planQuestions
+    .map(q => {
+      const value = plan[q.key];
+      const shown = typeof value === 'boolean' ? (value ? 'YES' : 'NO') : value || q.fallback;
+      return `${q.emoji} ${q.label}: ${shown}`;
+    })
+    .join('\n');
+}
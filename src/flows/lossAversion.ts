@@ -5,7 +5,11 @@ import {
   getOrCreateWeekTokens,
   deductToken,
   getCurrentWeekTokens,
+  claimMissedLock,
+  claimPunishmentNotice,
+  getActiveContract,
 } from '../db/queries';
+import { notifyReferee } from './referee';
 
 export interface TokenStatus {
   current: number;
@@ -15,7 +19,7 @@ export interface TokenStatus {
 }
 
 export async function getTokenStatus(user: User): Promise<TokenStatus> {
-  const tokens = await getOrCreateWeekTokens(user.id);
+  const tokens = await getOrCreateWeekTokens(user);
 
   return {
     current: tokens.current_tokens,
@@ -28,19 +32,46 @@ export async function getTokenStatus(user: User): Promise<TokenStatus> {
 export async function processFailure(
   user: User,
   reason: string,
-  severity: 'minor' | 'major' = 'minor'
+  severity: 'minor' | 'major' = 'minor',
+  date?: string
 ): Promise<string> {
   if (!user.loss_aversion_enabled) {
     return '';
   }
 
   const amount = severity === 'major' ? 2 : 1;
-  const tokens = await deductToken(user.id, reason, amount);
+  const tokens = await deductToken(user, reason, amount, date);
 
   if (tokens.punishment_triggered) {
+    return await generatePunishmentMessage(user, tokens, reason);
+  }
+
+  const remaining = tokens.current_tokens;
+  const emoji = remaining <= 2 ? '⚠️' : '📉';
+
+  return `${emoji} Token lost: ${reason}
+
+Remaining this week: ${remaining}/${tokens.starting_tokens}
+
+${remaining <= 2 ? 'You\'re running low. Every action counts now.' : ''}`;
+}
+
+// The first failure to hit zero announces the punishment and tells the
+// referee; later ones this week only repeat that it's due
+async function generatePunishmentMessage(user: User, tokens: TokenRecord, reason: string): Promise<string> {
+  const contract = await getActiveContract(user.id);
+  const punishment = contract?.punishment;
+
+  if (!(await claimPunishmentNotice(tokens.id))) {
+    return `⛔ Token lost: ${reason}
+
+Still at 0/${tokens.starting_tokens}. ${punishment ? `Your punishment is due: ${punishment}` : 'The punishment stands.'}`;
+  }
+
+  if (!contract || !punishment) {
     return `🚨 ZERO TOKENS
 
-You've lost all 7 tokens this week.
+You've lost all ${tokens.starting_tokens} tokens this week.
 
 The pre-agreed punishment is now active.
 
@@ -49,14 +80,20 @@ This is the cost of breaking your commitment.
 Next week starts fresh. But this week, you pay the price.`;
   }
 
-  const remaining = tokens.current_tokens;
-  const emoji = remaining <= 2 ? '⚠️' : '📉';
+  const refereeTold = await notifyReferee(user, contract);
 
-  return `${emoji} Token lost: ${reason}
+  return `🚨 ZERO TOKENS
 
-Remaining this week: ${remaining}/7
+You've lost all ${tokens.starting_tokens} tokens this week.
 
-${remaining <= 2 ? 'You\'re running low. Every action counts now.' : ''}`;
+Your punishment is now due:
+${punishment}
+
+${refereeTold ? 'Your referee has been told.' : 'No referee. This one is on your word.'}
+
+This is the cost of breaking your commitment.
+
+Next week starts fresh. But this week, you pay the price.`;
 }
 
 export async function checkDailyFailures(
@@ -77,17 +114,19 @@ export async function checkDailyFailures(
     const msg = await processFailure(
       user,
       `Score ${todayLog.total_score}/${totalPossible}`,
-      'minor'
+      'minor',
+      todayLog.date
     );
     if (msg) messages.push(msg);
   }
 
-  // Check for missed nightly lock
-  if (!todayLog.tomorrow_locked) {
+  // Check for missed nightly lock, unless the nightly escalation already charged it
+  if (!todayLog.tomorrow_locked && await claimMissedLock(user.id, todayLog.date)) {
     const msg = await processFailure(
       user,
       'Missed nightly lock',
-      'major'
+      'major',
+      todayLog.date
     );
     if (msg) messages.push(msg);
   }
@@ -119,8 +158,8 @@ Punishment active this week.`;
   return message;
 }
 
-export async function resetWeeklyTokens(user: User): Promise<void> {
-  // This is called by scheduler at start of week
+export async function resetWeeklyTokens(user: User): Promise<TokenRecord> {
+  // Called by the weekly rollover at the start of the user's week
   // The getOrCreateWeekTokens handles creating fresh tokens for new week
-  await getOrCreateWeekTokens(user.id);
+  return getOrCreateWeekTokens(user);
 }
@@ -1,17 +1,21 @@
 import { User, Contract, DailyLog, getYesterdayLog } from '../db/queries';
 import { generateFlowResponse, ConversationContext } from '../services/llm';
 import { FLOW_PROMPTS } from '../prompts/system';
+import { getContractPack, formatPlan } from './goalPacks';
+import { getStreaks, formatMorningStreaks } from './streaks';
 
 export async function generateMorningMessage(
   user: User,
   contract: Contract,
   context: ConversationContext
 ): Promise<string> {
-  const yesterdayLog = await getYesterdayLog(user.id);
+  const yesterdayLog = await getYesterdayLog(user);
+  const streaks = formatMorningStreaks(await getStreaks(user, contract));
+  const streakNote = streaks ? `\n\n${streaks}` : '';
 
   if (!yesterdayLog || !yesterdayLog.tomorrow_locked || !yesterdayLog.tomorrow_plan) {
     // No locked plan from last night
-    return `Good morning.
+    return `Good morning.${streakNote}
 
 You didn't lock yesterday. That's a pattern worth noticing.
 
@@ -21,15 +25,11 @@ What's the plan for today? Be specific.`;
   const plan = yesterdayLog.tomorrow_plan;
 
   // Generate declarative reminder
-  return `Good morning.
+  return `Good morning.${streakNote}
 
 You already decided:
 
-📍 Eating: ${plan.eating_window}
-🍽️ First meal: ${plan.first_meal}
-🚶 Walk: ${plan.walk_time}
-💪 Strength: ${plan.strength ? 'YES' : 'NO'}
-⚠️ Watch for: ${plan.danger_moment}
+${formatPlan(getContractPack(contract), plan)}
 
 You are someone who does what they say.
 
@@ -41,7 +41,7 @@ export async function generateMorningMessageWithLLM(
   contract: Contract,
   context: ConversationContext
 ): Promise<string> {
-  const yesterdayLog = await getYesterdayLog(user.id);
+  const yesterdayLog = await getYesterdayLog(user);
 
   if (!yesterdayLog?.tomorrow_plan) {
     return generateFlowResponse(context, `
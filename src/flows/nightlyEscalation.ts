@@ -0,0 +1,151 @@
+import { config } from '../config/env';
+import { User, getDailyLog, claimMissedLock } from '../db/queries';
+import { queueMessage } from '../services/outbox';
+import { getFlowDeliveryState, DeliveryState } from '../services/delivery';
+import { buildTemplate } from '../services/templates';
+import { addDays, getLocalTime, getUserToday, parseClockTime } from '../services/time';
+import { processFailure } from './lossAversion';
+
+// The nightly lock is mandatory, so an unanswered reminder escalates:
+// reminder -> nudges -> last chance -> missed lock recorded at sleep time.
+
+export type EscalationStep = 'reminder' | 'nudge' | 'last_chance' | 'missed';
+
+const LADDER_FLOWS = ['nightly_reminder', 'nightly_nudge', 'nightly_last_chance'];
+
+// The local day being locked. A step `minutesBeforeSleep` out fires that
+// long after the reminder, so step back to the reminder's evening; a miss
+// recorded at 00:30 still belongs to the evening before.
+export function getLockDate(user: User, scheduledAt: Date, minutesBeforeSleep: number): string {
+  const sinceReminder = config.nightly.reminderMinutesBeforeSleep - minutesBeforeSleep;
+  return getUserToday(user, new Date(scheduledAt.getTime() - sinceReminder * 60000));
+}
+
+// The evening a lock started at `now` belongs to: the day getLockDate
+// checks. Someone who sleeps after midnight is still locking the previous
+// evening until their sleep time.
+export function getCurrentLockDate(user: User, now: Date = new Date()): string {
+  const local = getLocalTime(user.timezone, now);
+  if (!user.sleep_time) return local.date;
+
+  const [hours, minutes] = parseClockTime(user.sleep_time);
+  const sleepMinutes = hours * 60 + minutes;
+  const nowMinutes = local.hours * 60 + local.minutes;
+
+  return sleepMinutes < 12 * 60 && nowMinutes <= sleepMinutes
+    ? addDays(local.date, -1)
+    : local.date;
+}
+
+export async function isLocked(user: User, lockDate: string): Promise<boolean> {
+  const log = await getDailyLog(user.id, lockDate);
+  return !!log?.tomorrow_locked;
+}
+
+export async function sendNightlyReminder(user: User, lockDate: string): Promise<void> {
+  if (await isLocked(user, lockDate)) return;
+
+  await queueMessage(user, `Time to lock tomorrow.
+
+Reply "lock" to start your nightly check-in.`, {
+    flow: 'nightly_reminder',
+    template: buildTemplate('nightly_lock', { name: user.name || 'there' }),
+  });
+}
+
+export async function sendNightlyNudge(user: User, lockDate: string): Promise<void> {
+  if (await isLocked(user, lockDate)) return;
+
+  // Word the nudge by what happened to the reminder: ignored vs never arrived
+  const reminder = await getFlowDeliveryState(user.id, 'nightly_reminder');
+  const message = generateNudgeMessage(reminder?.state || null);
+
+  await queueMessage(user, message, {
+    flow: 'nightly_nudge',
+    template: buildTemplate('nightly_lock', { name: user.name || 'there' }),
+  });
+}
+
+export async function sendLastChance(
+  user: User,
+  lockDate: string,
+  minutesBeforeSleep: number
+): Promise<void> {
+  if (await isLocked(user, lockDate)) return;
+
+  const cost = user.loss_aversion_enabled
+    ? '\n\nMiss it and it costs you 2 tokens.'
+    : '';
+
+  await queueMessage(user, `Last chance. ${minutesBeforeSleep} minutes to sleep and tomorrow isn't locked.${cost}
+
+Reply "lock" now.`, {
+    flow: 'nightly_last_chance',
+    template: buildTemplate('nightly_lock', { name: user.name || 'there' }),
+  });
+}
+
+// Runs at sleep time. Returns true if a missed lock was charged.
+export async function recordMissedLock(
+  user: User,
+  lockDate: string,
+  since: Date
+): Promise<boolean> {
+  if (await isLocked(user, lockDate)) return false;
+
+  // Claimed even when we don't charge, so settlement won't charge it either
+  if (!(await claimMissedLock(user.id, lockDate))) return false;
+
+  if (!(await wasReached(user, since))) {
+    console.warn(`Nightly lock for ${user.phone} on ${lockDate} never reached them; not charging`);
+    return false;
+  }
+
+  const tokenMessage = await processFailure(user, 'Missed nightly lock', 'major', lockDate);
+
+  await queueMessage(user, `Missed nightly lock.
+
+Tomorrow starts without a plan. That's how slips begin.${tokenMessage ? `\n\n${tokenMessage}` : ''}`, {
+    flow: 'missed_lock',
+  });
+
+  console.log(`Missed nightly lock recorded for ${user.phone} on ${lockDate}`);
+  return true;
+}
+
+// A lock we never managed to ask for isn't a missed lock. Only when every
+// ladder message sent tonight failed to deliver (or none went out) do we
+// hold off; "sent"/"pending" count as reached since status callbacks may
+// not be configured.
+async function wasReached(user: User, since: Date): Promise<boolean> {
+  const states = await Promise.all(
+    LADDER_FLOWS.map(flow => getFlowDeliveryState(user.id, flow))
+  );
+
+  const tonight = states.filter(
+    s => s && new Date(s.message.created_at).getTime() >= since.getTime()
+  );
+
+  return tonight.some(s => s!.state !== 'failed');
+}
+
+function generateNudgeMessage(reminderState: DeliveryState | null): string {
+  switch (reminderState) {
+    case 'read':
+      return `You saw the reminder. Tomorrow still isn't locked.
+
+Two minutes. Reply "lock".`;
+
+    case 'failed':
+    case null:
+      // The reminder never arrived, so this is the first they hear of it
+      return `Time to lock tomorrow.
+
+Reply "lock" to start your nightly check-in.`;
+
+    default:
+      return `Tomorrow isn't locked yet.
+
+Reply "lock" to start.`;
+  }
+}
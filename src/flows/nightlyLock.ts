@@ -2,29 +2,36 @@ import {
   User,
   Contract,
   DailyLog,
+  BinaryAction,
+  TomorrowPlan,
   getTodayLog,
+  getDailyLog,
   upsertDailyLog,
   recordPattern,
 } from '../db/queries';
 import { generateFlowResponse, ConversationContext } from '../services/llm';
+import { Reply, InteractiveContent, supportsInteractive } from '../services/messaging';
 import { FLOW_PROMPTS } from '../prompts/system';
+import { getTotalPoints, DAILY_POINTS } from './actionDesigner';
+import { getContractPack, generatePlanPrompt, parsePlan, formatPlan } from './goalPacks';
+import { getCurrentLockDate } from './nightlyEscalation';
+import { ScoreUpdate, updateScores, parseScoreUpdates } from './scorecard';
+import { getActionRule, meetsRule } from './contractEdits';
 
 export interface NightlyLockState {
   step: 'start' | 'scoring' | 'miss_reason' | 'planning' | 'confirm';
+  // The evening being locked, fixed when the flow starts so a lock that
+  // runs past midnight still lands on the day the escalation checks
+  lockDate?: string;
   todayScores?: Record<string, number>;
+  // Button-driven scoring walks the actions one at a time
+  scoringIndex?: number;
+  completedItems?: string[];
   missedItems?: string[];
   missReason?: string;
   tomorrowPlan?: TomorrowPlan;
 }
 
-export interface TomorrowPlan {
-  eating_window: string;
-  first_meal: string;
-  walk_time: string;
-  strength: boolean;
-  danger_moment: string;
-}
-
 // In-memory state for nightly lock flow (use Redis in production)
 const nightlyLockState = new Map<string, NightlyLockState>();
 
@@ -33,7 +40,7 @@ export async function handleNightlyLock(
   contract: Contract,
   message: string,
   context: ConversationContext
-): Promise<string> {
+): Promise<Reply> {
   let state = nightlyLockState.get(user.id) || { step: 'start' };
 
   switch (state.step) {
@@ -44,10 +51,10 @@ export async function handleNightlyLock(
       return await handleScoring(user, contract, message, state);
 
     case 'miss_reason':
-      return await handleMissReason(user, message, state);
+      return await handleMissReason(user, contract, message, state);
 
     case 'planning':
-      return await handlePlanning(user, message, state);
+      return await handlePlanning(user, contract, message, state);
 
     case 'confirm':
       return await handleConfirm(user, message, state, context);
@@ -57,10 +64,32 @@ export async function handleNightlyLock(
   }
 }
 
-async function startNightlyLock(user: User, contract: Contract): Promise<string> {
-  nightlyLockState.set(user.id, { step: 'scoring' });
-
+async function startNightlyLock(user: User, contract: Contract): Promise<Reply> {
   const actions = contract.binary_actions;
+  const lockDate = getCurrentLockDate(user);
+
+  if (supportsInteractive()) {
+    nightlyLockState.set(user.id, {
+      step: 'scoring',
+      lockDate,
+      scoringIndex: 0,
+      completedItems: [],
+      missedItems: [],
+    });
+
+    const prompt = getActionPrompt(actions[0]);
+    return {
+      ...prompt,
+      body: `Time to lock tomorrow.
+
+First, score today. One action at a time.
+
+${prompt.body}`,
+    };
+  }
+
+  nightlyLockState.set(user.id, { step: 'scoring', lockDate });
+
   const actionList = actions.map(a => `- ${a.name}`).join('\n');
 
   return `Time to lock tomorrow.
@@ -72,6 +101,19 @@ ${actionList}
 Reply with what you hit (e.g., "calories, protein, walk") or "all" / "none".`;
 }
 
+function getActionPrompt(action: BinaryAction): InteractiveContent {
+  const threshold = action.threshold ? ` (${action.threshold})` : '';
+
+  return {
+    body: `${action.name}${threshold}: done or missed?`,
+    buttons: [
+      { id: `score:${action.name}:1`, title: 'Done ✓' },
+      { id: `score:${action.name}:0`, title: 'Missed ✗' },
+      { id: 'score:all', title: 'All done' },
+    ],
+  };
+}
+
 async function handleScoring(
   user: User,
   contract: Contract,
@@ -116,47 +158,66 @@ async function handleScoring(
     }
   }
 
-  // Calculate scores
-  const scores: Record<string, number> = {};
-  let totalScore = 0;
+  // Amounts in the reply ("walk 6000 steps") are judged against their rules
+  const stated = parseScoreUpdates(message, contract).updates.filter(u => u.value !== undefined);
 
-  for (const action of actions) {
-    if (completedItems.includes(action.name)) {
-      scores[action.name] = action.points;
-      totalScore += action.points;
-    } else {
-      scores[action.name] = 0;
+  return await finishScoring(user, contract, completedItems, state, stated);
+}
+
+async function finishScoring(
+  user: User,
+  contract: Contract,
+  completedItems: string[],
+  state: NightlyLockState,
+  stated: ScoreUpdate[] = []
+): Promise<string> {
+  const actions = contract.binary_actions;
+  const lockDate = state.lockDate || getCurrentLockDate(user);
+  const log = await getDailyLog(user.id, lockDate);
+
+  // A numeric action is decided by its amount, stated now or logged earlier
+  // in the day, whatever was tapped; the rest go by the taps
+  const updates: ScoreUpdate[] = actions.map(action => {
+    const rule = getActionRule(action);
+    const value = stated.find(u => u.action === action.name)?.value ?? log?.action_values?.[action.name];
+    if (rule && value !== undefined) {
+      return { action: action.name, completed: meetsRule(rule, value), value };
     }
+    return { action: action.name, completed: completedItems.includes(action.name) };
+  });
+
+  const scores: Record<string, number> = {};
+  for (const action of actions) {
+    scores[action.name] = updates.find(u => u.action === action.name)!.completed ? action.points : 0;
   }
+  const missed = updates.filter(u => !u.completed).map(u => u.action);
 
-  // Save today's log
-  const today = new Date().toISOString().split('T')[0];
-  await upsertDailyLog(user.id, today, {
-    scores,
-    total_score: totalScore,
-  });
+  // Through the scorecard's audited write, so "undo last" sees it and
+  // amounts logged earlier in the day are kept
+  const { newScore: totalScore } = await updateScores(user, contract, updates, { date: lockDate, kind: 'nightly' });
 
   state.todayScores = scores;
-  state.missedItems = missedItems;
+  state.missedItems = missed;
 
-  if (missedItems.length > 0) {
+  if (missed.length > 0) {
     state.step = 'miss_reason';
     nightlyLockState.set(user.id, state);
 
-    return FLOW_PROMPTS.nightly_lock_reason(missedItems);
+    return FLOW_PROMPTS.nightly_lock_reason(missed);
   }
 
   // No misses, go straight to planning
   state.step = 'planning';
   nightlyLockState.set(user.id, state);
 
-  return `Perfect day. ${totalScore}/10.
+  return `Perfect day. ${totalScore}/${getTotalPoints(actions)}.
 
-${FLOW_PROMPTS.nightly_lock_plan}`;
+${generatePlanPrompt(getContractPack(contract))}`;
 }
 
 async function handleMissReason(
   user: User,
+  contract: Contract,
   message: string,
   state: NightlyLockState
 ): Promise<string> {
@@ -176,29 +237,33 @@ async function handleMissReason(
 
   return `Noted: "${message.trim()}"
 
-${FLOW_PROMPTS.nightly_lock_plan}`;
+${generatePlanPrompt(getContractPack(contract))}`;
 }
 
 async function handlePlanning(
   user: User,
+  contract: Contract,
   message: string,
   state: NightlyLockState
-): Promise<string> {
+): Promise<Reply> {
   // Parse tomorrow's plan
-  const plan = parseTomorrowPlan(message);
+  const pack = getContractPack(contract);
+  const plan = parsePlan(pack, message);
   state.tomorrowPlan = plan;
   state.step = 'confirm';
   nightlyLockState.set(user.id, state);
 
-  return `Tomorrow's plan:
+  return {
+    body: `Tomorrow's plan:
 
-📍 Eating: ${plan.eating_window}
-🍽️ First meal: ${plan.first_meal}
-🚶 Walk: ${plan.walk_time}
-💪 Strength: ${plan.strength ? 'YES' : 'NO'}
-⚠️ Danger: ${plan.danger_moment}
+${formatPlan(pack, plan)}
 
-Reply "LOCKED" to confirm.`;
+Reply "LOCKED" to confirm.`,
+    buttons: [
+      { id: 'lock:confirm', title: 'LOCKED' },
+      { id: 'lock:edit', title: 'Change plan' },
+    ],
+  };
 }
 
 async function handleConfirm(
@@ -211,8 +276,7 @@ async function handleConfirm(
 
   if (confirmation === 'LOCKED') {
     // Save tomorrow's plan
-    const today = new Date().toISOString().split('T')[0];
-    await upsertDailyLog(user.id, today, {
+    await upsertDailyLog(user.id, state.lockDate || getCurrentLockDate(user), {
       tomorrow_locked: true,
       tomorrow_plan: state.tomorrowPlan as any,
       miss_reason: state.missReason || null,
@@ -224,10 +288,11 @@ async function handleConfirm(
     const score = state.todayScores
       ? Object.values(state.todayScores).reduce((a, b) => a + b, 0)
       : 0;
+    const totalPossible = context.contract ? getTotalPoints(context.contract.binary_actions) : DAILY_POINTS;
 
     return `Locked. ✓
 
-Today: ${score}/10
+Today: ${score}/${totalPossible}
 Tomorrow is already decided.
 
 Sleep well. I'll remind you in the morning.`;
@@ -240,45 +305,72 @@ Sleep well. I'll remind you in the morning.`;
   return "What do you want to change? Give me the full plan again.";
 }
 
-function parseTomorrowPlan(message: string): TomorrowPlan {
-  const defaults: TomorrowPlan = {
-    eating_window: '12pm-8pm',
-    first_meal: '12pm',
-    walk_time: 'morning',
-    strength: false,
-    danger_moment: 'evening',
-  };
+// Button taps are matched on their payload instead of the fuzzy text parsing
+// above. Payloads: score:all, score:<action>:1|0, lock:confirm, lock:edit.
+export async function handleNightlyLockPayload(
+  user: User,
+  contract: Contract,
+  payload: string,
+  context: ConversationContext
+): Promise<Reply> {
+  const state = nightlyLockState.get(user.id);
+  const [kind, ...args] = payload.split(':');
 
-  const lower = message.toLowerCase();
+  if (kind === 'score' && state?.step === 'scoring') {
+    return await handleScoringPayload(user, contract, args, state);
+  }
 
-  // Parse eating window
-  const eatingMatch = lower.match(/eat(?:ing)?[:\s]*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)\s*[-–to]+\s*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
-  if (eatingMatch) {
-    defaults.eating_window = `${eatingMatch[1]}-${eatingMatch[2]}`;
+  if (kind === 'lock' && state?.step === 'confirm') {
+    return await handleConfirm(user, args[0] === 'confirm' ? 'LOCKED' : 'change', state, context);
   }
 
-  // Parse first meal
-  const firstMatch = lower.match(/first[:\s]*(.+?)(?:\n|$)/i);
-  if (firstMatch) {
-    defaults.first_meal = firstMatch[1].trim();
+  return 'That button is from an earlier check-in. Reply "lock" to start again.';
+}
+
+async function handleScoringPayload(
+  user: User,
+  contract: Contract,
+  args: string[],
+  state: NightlyLockState
+): Promise<Reply> {
+  const actions = contract.binary_actions;
+  const completedItems = state.completedItems || [];
+  const missedItems = state.missedItems || [];
+  const index = state.scoringIndex ?? 0;
+
+  if (args[0] === 'all') {
+    // Everything not already marked missed counts as done
+    const remaining = actions.slice(index).map(a => a.name);
+    return await finishScoring(user, contract, [...completedItems, ...remaining], state);
   }
 
-  // Parse walk time
-  const walkMatch = lower.match(/walk[:\s]*(.+?)(?:\n|$)/i);
-  if (walkMatch) {
-    defaults.walk_time = walkMatch[1].trim();
+  const [actionName, result] = args;
+  const current = actions[index];
+
+  // Ignore taps on an earlier action's buttons
+  if (!current || current.name !== actionName) {
+    return current
+      ? getActionPrompt(current)
+      : await finishScoring(user, contract, completedItems, state);
+  }
+
+  if (result === '1') {
+    completedItems.push(current.name);
+  } else {
+    missedItems.push(current.name);
   }
 
-  // Parse strength
-  defaults.strength = /strength[:\s]*(?:yes|y|✓|true)/i.test(lower);
+  state.completedItems = completedItems;
+  state.missedItems = missedItems;
+  state.scoringIndex = index + 1;
+  nightlyLockState.set(user.id, state);
 
-  // Parse danger moment
-  const dangerMatch = lower.match(/danger[:\s]*(.+?)(?:\n|$)/i);
-  if (dangerMatch) {
-    defaults.danger_moment = dangerMatch[1].trim();
+  const next = actions[index + 1];
+  if (next) {
+    return getActionPrompt(next);
   }
 
-  return defaults;
+  return await finishScoring(user, contract, completedItems, state);
 }
 
 export function isInNightlyLock(userId: string): boolean {
@@ -1,36 +1,43 @@
-import { User, updateUser, createContract, BinaryAction } from '../db/queries';
-import { sendMessage } from '../services/twilio';
+import {
+  User,
+  BinaryAction,
+  OnboardingSession,
+  updateUser,
+  createContract,
+  getOnboardingSession,
+  saveOnboardingSession,
+  deleteOnboardingSession,
+} from '../db/queries';
+import { Reply } from '../services/messaging';
+import { parseTimezone, inferTimezoneFromPhone, parseWeekday, getWeekdayName } from '../services/time';
+import { getRiskTimes } from './riskLearning';
+import { applyActionEdits, formatActions } from './contractEdits';
+import {
+  GoalPack,
+  GOAL_PACKS,
+  DEFAULT_GOAL_PACK,
+  getGoalPack,
+  findGoalPack,
+  detectGoalPack,
+  formatPackList,
+  formatRiskSuggestions,
+} from './goalPacks';
+import { designActions, normalizePoints, generateVagueFollowUp, getTotalPoints } from './actionDesigner';
+import { parseRefereePhone, isOwnPhone } from './referee';
 import { ONBOARDING_PROMPTS } from '../prompts/system';
 
-export interface OnboardingState {
-  step: string;
-  goal?: string;
-  binaryActions?: BinaryAction[];
-  times?: {
-    wake: string;
-    sleep: string;
-    eatingStart: string;
-    eatingEnd: string;
-    dangerTimes: string[];
-  };
-  shameLevel?: number;
-}
+// Answers so far live in onboarding_sessions and the current step on
+// users.onboarding_step, so onboarding survives deploys and can be resumed
+// days later.
 
-const DEFAULT_BINARY_ACTIONS: BinaryAction[] = [
-  { name: 'calories', threshold: 'under target', points: 2 },
-  { name: 'protein', threshold: 'hit target', points: 2 },
-  { name: 'walk', threshold: '10k steps', points: 1 },
-  { name: 'strength', threshold: 'completed', points: 1 },
-  { name: 'creatine', threshold: 'taken', points: 1 },
-  { name: 'fasting', threshold: 'in window', points: 1 },
-  { name: 'weigh_in', threshold: 'done', points: 1 },
-  { name: 'photo', threshold: 'taken', points: 1 },
-];
+// Without a goal pack, the fat-loss defaults (what every contract used
+// before packs existed)
+const DEFAULT_BINARY_ACTIONS: BinaryAction[] = DEFAULT_GOAL_PACK.actions;
 
 export async function handleOnboarding(
   user: User,
   message: string
-): Promise<string> {
+): Promise<Reply> {
   const step = user.onboarding_step || 'start';
   const lowerMessage = message.trim().toLowerCase();
 
@@ -40,6 +47,12 @@ export async function handleOnboarding(
     return ONBOARDING_PROMPTS.welcome;
   }
 
+  // Coming back with a "hi" mid-onboarding: recap and re-ask, don't treat
+  // the greeting as an answer
+  if (GREETINGS.includes(lowerMessage) && RESUMABLE_STEPS.includes(step)) {
+    return await generateResumePrompt(user, step);
+  }
+
   switch (step) {
     case 'start':
       await updateUser(user.id, { onboarding_step: 'awaiting_name' });
@@ -60,6 +73,9 @@ export async function handleOnboarding(
     case 'awaiting_shame_level':
       return await handleShameLevelInput(user, message);
 
+    case 'awaiting_punishment':
+      return await handlePunishmentInput(user, message);
+
     case 'awaiting_contract_confirm':
       return await handleContractConfirm(user, message);
 
@@ -69,9 +85,102 @@ export async function handleOnboarding(
   }
 }
 
+const GREETINGS = ['hi', 'hello', 'hey', 'yo', 'sup', 'hola', 'start', 'begin'];
+
+const RESUMABLE_STEPS = [
+  'awaiting_goal',
+  'awaiting_actions',
+  'awaiting_times',
+  'awaiting_shame_level',
+  'awaiting_punishment',
+  'awaiting_contract_confirm',
+];
+
 function isGreeting(message: string): boolean {
-  const greetings = ['hi', 'hello', 'hey', 'yo', 'sup', 'hola', 'start', 'begin'];
-  return greetings.includes(message) || message.length < 4;
+  return GREETINGS.includes(message) || message.length < 4;
+}
+
+async function generateResumePrompt(user: User, step: string): Promise<Reply> {
+  const session = await getOnboardingSession(user.id);
+
+  const recap: string[] = [];
+  if (session?.goal) recap.push(`- Goal: ${session.goal}`);
+  if (session?.binary_actions) recap.push(`- Actions: ${session.binary_actions.map(a => a.name).join(', ')}`);
+  if (session?.times) recap.push(`- Wake ${session.times.wake}, sleep ${session.times.sleep}`);
+  if (session?.shame_level) recap.push(`- Shame level: ${session.shame_level}/3`);
+  if (session?.punishment) recap.push(`- Punishment: ${session.punishment}`);
+
+  const intro = `Welcome back${user.name ? `, ${user.name}` : ''}. Picking up where we left off.${
+    recap.length > 0 ? `\n\nSo far:\n${recap.join('\n')}` : ''
+  }`;
+
+  const prompt = getStepPrompt(user, step, session);
+  return typeof prompt === 'string'
+    ? `${intro}\n\n${prompt}`
+    : { ...prompt, body: `${intro}\n\n${prompt.body}` };
+}
+
+// The question asked at each step, for re-asking on resume
+function getStepPrompt(
+  user: User,
+  step: string,
+  session: OnboardingSession | null
+): Reply {
+  switch (step) {
+    case 'awaiting_goal':
+      return ONBOARDING_PROMPTS.name_received(user.name || 'Right');
+
+    case 'awaiting_actions': {
+      const pack = getGoalPack(session?.goal_pack);
+      const goal = session?.goal || 'your goal';
+      return pack ? getPackOffer(goal, pack) : getPackPicker(goal);
+    }
+
+    case 'awaiting_times':
+      return getTimesPrompt(getGoalPack(session?.goal_pack));
+
+    case 'awaiting_shame_level':
+      return getShameLevelPrompt();
+
+    case 'awaiting_punishment':
+      return ONBOARDING_PROMPTS.punishment;
+
+    default: {
+      const contractText = session?.draft_contract
+        || generateContractText(user, toContractData(session), user.shame_level);
+      return {
+        body: ONBOARDING_PROMPTS.contract_review(contractText),
+        buttons: [{ id: 'contract:locked', title: 'LOCKED' }],
+      };
+    }
+  }
+}
+
+function getShameLevelPrompt(): Reply {
+  return {
+    body: ONBOARDING_PROMPTS.shame_level,
+    buttons: [
+      { id: 'shame:1', title: 'Level 1' },
+      { id: 'shame:2', title: 'Level 2' },
+      { id: 'shame:3', title: 'Level 3' },
+    ],
+  };
+}
+
+export interface ContractData {
+  goal?: string;
+  binaryActions?: BinaryAction[];
+  punishment?: string | null;
+  refereePhone?: string | null;
+}
+
+function toContractData(session: OnboardingSession | null): ContractData {
+  return {
+    goal: session?.goal || undefined,
+    binaryActions: session?.binary_actions || undefined,
+    punishment: session?.punishment,
+    refereePhone: session?.referee_phone,
+  };
 }
 
 async function handleNameInput(user: User, message: string): Promise<string> {
@@ -94,48 +203,144 @@ async function handleNameInput(user: User, message: string): Promise<string> {
   return ONBOARDING_PROMPTS.name_received(capitalizedName);
 }
 
-async function handleGoalInput(user: User, message: string): Promise<string> {
-  const goal = message.trim();
+async function handleGoalInput(user: User, message: string): Promise<Reply> {
+  const pack = detectGoalPack(message);
 
-  // Store goal temporarily (we'll use it when creating contract)
-  await updateUser(user.id, {
-    onboarding_step: 'awaiting_actions',
-    // Store goal in name field temporarily (we'll move it to contract later)
-  });
+  // A bare pick from the examples ("3") names the pack, not the goal
+  const goal = findGoalPack(message) && pack ? pack.name : message.trim();
 
-  // Store in memory for contract creation
-  onboardingData.set(user.id, { goal });
+  // Keep the goal for contract creation
+  await saveOnboardingSession(user.id, { goal, goal_pack: pack?.id || null });
+  await updateUser(user.id, { onboarding_step: 'awaiting_actions' });
 
-  return ONBOARDING_PROMPTS.goal_received(goal);
+  return pack ? getPackOffer(goal, pack) : getPackPicker(goal);
 }
 
-async function handleActionsInput(user: User, message: string): Promise<string> {
-  // Parse binary actions from message
-  const actions = parseBinaryActions(message);
+function getPackOffer(goal: string, pack: GoalPack): Reply {
+  return {
+    body: ONBOARDING_PROMPTS.pack_offer(
+      goal,
+      pack.name,
+      formatActions(pack.actions),
+      pack.actions[pack.actions.length - 1].name
+    ),
+    buttons: [{ id: 'pack:defaults', title: 'Use these' }],
+  };
+}
+
+// No pack matched the goal: ask for their own list, or a pack to start from
+function getPackPicker(goal: string): Reply {
+  return {
+    body: `${ONBOARDING_PROMPTS.goal_received(goal)}
+
+Or start from a pack (reply with its number):
+${formatPackList()}`,
+    list: {
+      button: 'Pick a pack',
+      items: GOAL_PACKS.map(p => ({
+        id: `pack:${p.id}`,
+        title: p.name,
+        description: p.actions.slice(0, 3).map(a => a.name).join(', '),
+      })),
+    },
+  };
+}
 
-  const data = onboardingData.get(user.id) || {};
-  data.binaryActions = actions.length > 0 ? actions : DEFAULT_BINARY_ACTIONS;
-  onboardingData.set(user.id, data);
+async function handleActionsInput(user: User, message: string): Promise<Reply> {
+  const session = await getOnboardingSession(user.id);
+  const earlier = session?.binary_actions || [];
+  const lower = message.trim().toLowerCase();
+
+  const pack = getGoalPack(session?.goal_pack);
+
+  // Picked a pack from the list. Once a pack is offered, only a number
+  // switches: "sleep" may be an action.
+  const picked = !pack || /^\d+$/.test(lower) ? findGoalPack(message) : null;
+  if (picked) {
+    await saveOnboardingSession(user.id, { goal_pack: picked.id, binary_actions: null });
+    return getPackOffer(session?.goal || picked.name, picked);
+  }
+
+  if (pack && ['defaults', 'default', 'use these'].includes(lower)) {
+    return await finishActions(user, pack.actions, pack);
+  }
+
+  // "skip" after a follow-up: go with the concrete ones we already have
+  if (lower === 'skip' && earlier.length > 0) {
+    return await finishActions(user, earlier, pack);
+  }
+
+  // Edits to the pack's defaults ("drop photo", "add meditate 10 min")
+  if (pack && earlier.length === 0) {
+    const edits = applyActionEdits(pack.actions, message);
+    if (edits.changes.length > 0 && edits.actions.length > 0) {
+      const skipped = edits.unrecognized.length > 0
+        ? `\nCouldn't apply: ${edits.unrecognized.join('; ')}`
+        : '';
+      return `Updated: ${edits.changes.join(', ')}.${skipped}
+
+${await finishActions(user, edits.actions, pack)}`;
+    }
+  }
+
+  const design = await designActions(session?.goal || '', message);
+
+  // Answers to a follow-up add to the list rather than replace it
+  const actions = [...earlier, ...design.actions.filter(a => !earlier.some(e => e.name === a.name))];
+
+  if (design.vague.length > 0) {
+    await saveOnboardingSession(user.id, { binary_actions: actions });
+    return generateVagueFollowUp({ actions, vague: design.vague });
+  }
+
+  return await finishActions(
+    user,
+    actions.length > 0 ? actions : pack?.actions || DEFAULT_BINARY_ACTIONS,
+    pack
+  );
+}
+
+async function finishActions(user: User, actions: BinaryAction[], pack: GoalPack | null): Promise<string> {
+  await saveOnboardingSession(user.id, {
+    binary_actions: normalizePoints(actions),
+  });
 
   await updateUser(user.id, { onboarding_step: 'awaiting_times' });
 
-  return ONBOARDING_PROMPTS.times_setup;
+  return getTimesPrompt(pack);
 }
 
-async function handleTimesInput(user: User, message: string): Promise<string> {
-  // Parse times from message
-  const times = parseTimes(message);
+function getTimesPrompt(pack: GoalPack | null): string {
+  return pack
+    ? `${ONBOARDING_PROMPTS.times_setup}
+
+${formatRiskSuggestions(pack)}`
+    : ONBOARDING_PROMPTS.times_setup;
+}
+
+async function handleTimesInput(user: User, message: string): Promise<Reply> {
+  // Parse times from message; no danger times given means the pack's
+  const session = await getOnboardingSession(user.id);
+  const pack = getGoalPack(session?.goal_pack);
+  const times = parseTimes(message, pack?.riskTimes.map(r => r.time));
+
+  // An explicit answer wins; otherwise guess from the country code
+  const timezone = times.timezone || inferTimezoneFromPhone(user.phone) || user.timezone;
+
+  await saveOnboardingSession(user.id, { times: { ...times, timezone } });
 
   await updateUser(user.id, {
     onboarding_step: 'awaiting_shame_level',
+    timezone,
+    week_start_day: times.weekStartDay,
     wake_time: times.wake,
     sleep_time: times.sleep,
     eating_window_start: times.eatingStart,
     eating_window_end: times.eatingEnd,
-    risk_times: JSON.stringify(times.dangerTimes) as any,
+    risk_times: times.dangerTimes,
   });
 
-  return ONBOARDING_PROMPTS.shame_level;
+  return getShameLevelPrompt();
 }
 
 async function handleShameLevelInput(user: User, message: string): Promise<string> {
@@ -143,29 +348,111 @@ async function handleShameLevelInput(user: User, message: string): Promise<strin
   const shameLevel = [1, 2, 3].includes(level) ? level : 1;
 
   await updateUser(user.id, {
-    onboarding_step: 'awaiting_contract_confirm',
+    onboarding_step: 'awaiting_punishment',
     shame_level: shameLevel,
   });
+  await saveOnboardingSession(user.id, { shame_level: shameLevel });
 
-  const data = onboardingData.get(user.id) || {};
-  const contractText = generateContractText(user, data, shameLevel);
+  return ONBOARDING_PROMPTS.punishment;
+}
+
+async function handlePunishmentInput(user: User, message: string): Promise<Reply> {
+  const terms = parsePunishment(message);
+
+  if (terms.refereePhone && isOwnPhone(user, terms.refereePhone)) {
+    return `That's your own number. The referee has to be someone else.
+
+Send the punishment with their number, or just the punishment to go without a referee.`;
+  }
 
-  return ONBOARDING_PROMPTS.contract_review(contractText);
+  if (terms.refereeInvalid) {
+    return `I need the referee's number with its country code, e.g. "Referee: +15551234567".
+
+Send the punishment and the number again, or just the punishment to go without a referee.`;
+  }
+
+  if (!terms.punishment) {
+    return `That's not a punishment I can hold you to. Make it concrete: what, how much, by when.
+
+e.g. "Donate $100 to a cause I oppose" or "No phone for a full Saturday".`;
+  }
+
+  await updateUser(user.id, { onboarding_step: 'awaiting_contract_confirm' });
+
+  // Save the draft exactly as shown, so what they lock is what they saw
+  const session = await saveOnboardingSession(user.id, {
+    punishment: terms.punishment,
+    referee_phone: terms.refereePhone,
+  });
+  const shameLevel = session.shame_level || user.shame_level;
+  const contractText = generateContractText(user, toContractData(session), shameLevel);
+  await saveOnboardingSession(user.id, { draft_contract: contractText });
+
+  return {
+    body: ONBOARDING_PROMPTS.contract_review(contractText),
+    buttons: [{ id: 'contract:locked', title: 'LOCKED' }],
+  };
+}
+
+interface PunishmentTerms {
+  punishment: string | null; // null when missing or too vague to enforce
+  refereePhone: string | null;
+  refereeInvalid: boolean;
+}
+
+const VAGUE_PUNISHMENT = /\b(?:something|anything|whatever|idk|dunno|not sure|no idea|nothing|none|you decide|up to you)\b/i;
+
+// "Donate $100 to X. Referee: +1555..." -> punishment and referee. The
+// referee is optional; a number that can't be dialed is not.
+function parsePunishment(message: string): PunishmentTerms {
+  const refereeLine = message.match(/\breferee\b[:\s]*([^\n]*)/i);
+  const refereePhone = parseRefereePhone(refereeLine ? refereeLine[1] : message);
+  const refereeInvalid = !!refereeLine && !refereePhone && !/\b(no|none|skip)\b/i.test(refereeLine[1]);
+
+  const punishment = message
+    .replace(/\breferee\b[:\s]*[^\n]*/i, '')
+    .replace(/\+?\d[\d\s().-]{6,}\d/g, match => (parseRefereePhone(match) === refereePhone ? '' : match))
+    .replace(/^\s*punishment[:\s]*/i, '')
+    .replace(/[\s.,;]+$/, '')
+    .trim();
+
+  const concrete = punishment.split(/\s+/).length >= 3 && !VAGUE_PUNISHMENT.test(punishment);
+
+  return {
+    punishment: concrete ? punishment : null,
+    refereePhone,
+    refereeInvalid,
+  };
 }
 
-async function handleContractConfirm(user: User, message: string): Promise<string> {
+async function handleContractConfirm(user: User, message: string): Promise<Reply> {
   const confirmation = message.trim().toUpperCase();
 
   if (confirmation === 'LOCKED') {
-    const data = onboardingData.get(user.id) || {};
+    const session = await getOnboardingSession(user.id);
+
+    // Never lock a contract on defaults the user didn't choose (sessions
+    // from before onboarding was persisted have no goal)
+    if (!session?.goal) {
+      await updateUser(user.id, { onboarding_step: 'awaiting_goal' });
+      return `I don't have your goal on record, so I can't lock this yet.
+
+${ONBOARDING_PROMPTS.name_received(user.name || 'Right')}`;
+    }
 
     // Create the contract
-    const contractText = generateContractText(user, data, user.shame_level);
+    const contractText = session.draft_contract
+      || generateContractText(user, toContractData(session), user.shame_level);
     await createContract(
       user.id,
-      data.goal || 'fitness',
-      data.binaryActions || DEFAULT_BINARY_ACTIONS,
-      contractText
+      session.goal,
+      session.binary_actions || DEFAULT_BINARY_ACTIONS,
+      contractText,
+      {
+        goalPack: session.goal_pack,
+        punishment: session.punishment,
+        refereePhone: session.referee_phone,
+      }
     );
 
     // Mark onboarding complete
@@ -174,95 +461,191 @@ async function handleContractConfirm(user: User, message: string): Promise<strin
       onboarding_step: 'complete',
     });
 
-    // Clean up temp data
-    onboardingData.delete(user.id);
+    // The contract now holds everything the session did
+    await deleteOnboardingSession(user.id);
 
     return ONBOARDING_PROMPTS.complete;
   }
 
-  // If not confirmed, let them revise
-  return "What would you like to change? Reply with the changes, then I'll regenerate the contract.";
+  // Anything else is a revision: apply it, regenerate, and show it again
+  return await handleContractRevision(user, message);
 }
 
-// Temporary storage for onboarding data (in production, use Redis or session storage)
-const onboardingData = new Map<string, any>();
-
-function parseBinaryActions(message: string): BinaryAction[] {
-  const lines = message.split('\n').filter(l => l.trim());
-  const actions: BinaryAction[] = [];
-
-  for (const line of lines) {
-    // Remove bullet points, dashes, numbers
-    const cleaned = line.replace(/^[-*•\d.)\s]+/, '').trim();
-    if (!cleaned) continue;
-
-    // Try to extract threshold
-    const match = cleaned.match(/^(.+?)\s+(under|over|at least|min|max|hit|done|completed)?\s*(\d+)?/i);
-
-    if (match) {
-      actions.push({
-        name: match[1].toLowerCase().replace(/\s+/g, '_'),
-        threshold: cleaned,
-        points: 1,
-      });
+async function handleContractRevision(user: User, message: string): Promise<Reply> {
+  const session = await getOnboardingSession(user.id);
+  const edits = applyActionEdits(session?.binary_actions || DEFAULT_BINARY_ACTIONS, message);
+  const changes = [...edits.changes];
+  const unrecognized: string[] = [];
+
+  // Lines that aren't action edits may be schedule or shame level changes
+  const schedule: Partial<TimeFields> = {};
+  let shameLevel = session?.shame_level || user.shame_level;
+  let punishment = session?.punishment || null;
+  let refereePhone = session?.referee_phone || null;
+
+  for (const line of edits.unrecognized) {
+    const fields = parseTimeFields(line);
+    const shameMatch = line.match(/\b(?:shame|level)(?:\s*level)?[:\s]*([123])\b/i);
+    const punishmentMatch = line.match(/^punishment[:\s]+(.+)$/i);
+    const refereeMatch = line.match(/^(?:no\s+referee|referee[:\s]+(.+))$/i);
+
+    if (punishmentMatch) {
+      const terms = parsePunishment(punishmentMatch[1]);
+      if (terms.punishment) {
+        punishment = terms.punishment;
+        changes.push(`Punishment: ${punishment}`);
+      } else {
+        unrecognized.push(line);
+      }
+    } else if (refereeMatch) {
+      const phone = refereeMatch[1] ? parseRefereePhone(refereeMatch[1]) : null;
+      if (refereeMatch[1] && !phone) {
+        unrecognized.push(line);
+      } else if (phone && isOwnPhone(user, phone)) {
+        unrecognized.push(`${line} (that's your own number)`);
+      } else {
+        refereePhone = phone;
+        changes.push(phone ? `Referee: ${phone}` : 'No referee');
+      }
+    } else if (Object.keys(fields).length > 0) {
+      Object.assign(schedule, fields);
+      changes.push(line);
+    } else if (shameMatch) {
+      shameLevel = parseInt(shameMatch[1], 10);
+      changes.push(`Shame level ${shameLevel}`);
     } else {
-      actions.push({
-        name: cleaned.toLowerCase().replace(/\s+/g, '_'),
-        threshold: 'completed',
-        points: 1,
-      });
+      unrecognized.push(line);
     }
   }
 
-  // Assign points (first 2 get 2 points each)
-  if (actions.length >= 2) {
-    actions[0].points = 2;
-    actions[1].points = 2;
+  if (changes.length === 0) {
+    return `I couldn't apply that. One change per line, e.g.:
+- "drop photo" / "add meditate 10 min"
+- "swap creatine for read 20 pages"
+- "change walk to 12k steps" / "make walk worth 2 points"
+- "sleep 11pm" / "danger 3pm, 9pm"
+- "shame level 2"
+- "punishment: donate $100" / "referee: +15551234567"
+
+Or reply "LOCKED" to confirm as is.`;
+  }
+
+  if (edits.actions.length === 0) {
+    return "That would leave no actions. A contract needs at least one.";
   }
 
-  return actions;
+  const updated = await updateUser(user.id, {
+    shame_level: shameLevel,
+    ...toUserSchedule(schedule),
+  }) || user;
+
+  const contractText = generateContractText(
+    updated,
+    { goal: session?.goal || undefined, binaryActions: edits.actions, punishment, refereePhone },
+    shameLevel
+  );
+
+  await saveOnboardingSession(user.id, {
+    binary_actions: edits.actions,
+    shame_level: shameLevel,
+    punishment,
+    referee_phone: refereePhone,
+    draft_contract: contractText,
+    ...(session?.times && Object.keys(schedule).length > 0
+      ? { times: { ...session.times, ...schedule, timezone: schedule.timezone || session.times.timezone } }
+      : {}),
+  });
+
+  const skipped = unrecognized.length > 0 ? `\nCouldn't apply: ${unrecognized.join('; ')}\n` : '';
+
+  return {
+    body: `Updated: ${changes.join(', ')}.
+${skipped}
+${ONBOARDING_PROMPTS.contract_review(contractText)}`,
+    buttons: [{ id: 'contract:locked', title: 'LOCKED' }],
+  };
+}
+
+// Schedule fields from a revision mapped onto the user columns they live in
+function toUserSchedule(fields: Partial<TimeFields>): Partial<User> {
+  const updates: Partial<User> = {};
+  if (fields.wake) updates.wake_time = fields.wake;
+  if (fields.sleep) updates.sleep_time = fields.sleep;
+  if (fields.eatingStart) updates.eating_window_start = fields.eatingStart;
+  if (fields.eatingEnd) updates.eating_window_end = fields.eatingEnd;
+  if (fields.dangerTimes) updates.risk_times = fields.dangerTimes;
+  if (fields.timezone) updates.timezone = fields.timezone;
+  if (fields.weekStartDay !== undefined) updates.week_start_day = fields.weekStartDay;
+  return updates;
 }
 
-function parseTimes(message: string): {
+interface TimeFields {
   wake: string;
   sleep: string;
   eatingStart: string;
   eatingEnd: string;
   dangerTimes: string[];
-} {
-  const defaults = {
-    wake: '07:00',
-    sleep: '22:00',
-    eatingStart: '12:00',
-    eatingEnd: '20:00',
-    dangerTimes: ['21:00'],
-  };
+  timezone: string | null;
+  weekStartDay: number;
+}
+
+const TIME_DEFAULTS: TimeFields = {
+  wake: '07:00',
+  sleep: '22:00',
+  eatingStart: '12:00',
+  eatingEnd: '20:00',
+  dangerTimes: ['21:00'],
+  timezone: null,
+  weekStartDay: 1, // Monday
+};
+
+function parseTimes(message: string, dangerTimes: string[] = TIME_DEFAULTS.dangerTimes): TimeFields {
+  return { ...TIME_DEFAULTS, dangerTimes, ...parseTimeFields(message) };
+}
 
+// Only the fields the message mentions, so a revision like "sleep 11pm"
+// leaves the rest of the schedule alone
+function parseTimeFields(message: string): Partial<TimeFields> {
+  const fields: Partial<TimeFields> = {};
   const lower = message.toLowerCase();
 
   // Parse wake time
-  const wakeMatch = lower.match(/wake[:\s]*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
-  if (wakeMatch) defaults.wake = normalizeTime(wakeMatch[1]);
+  const wakeMatch = lower.match(/wake[:\s]*(?:at\s+|to\s+)?(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
+  if (wakeMatch) fields.wake = normalizeTime(wakeMatch[1]);
 
   // Parse sleep time
-  const sleepMatch = lower.match(/sleep[:\s]*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
-  if (sleepMatch) defaults.sleep = normalizeTime(sleepMatch[1]);
+  const sleepMatch = lower.match(/sleep[:\s]*(?:at\s+|to\s+)?(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
+  if (sleepMatch) fields.sleep = normalizeTime(sleepMatch[1]);
 
   // Parse eating window
   const eatingMatch = lower.match(/eating[:\s]*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)\s*[-–to]+\s*(\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?)/i);
   if (eatingMatch) {
-    defaults.eatingStart = normalizeTime(eatingMatch[1]);
-    defaults.eatingEnd = normalizeTime(eatingMatch[2]);
+    fields.eatingStart = normalizeTime(eatingMatch[1]);
+    fields.eatingEnd = normalizeTime(eatingMatch[2]);
   }
 
   // Parse danger times
   const dangerMatch = lower.match(/danger[:\s]*(.+?)(?:\n|$)/i);
   if (dangerMatch) {
     const times = dangerMatch[1].match(/\d{1,2}[:\s]?\d{0,2}\s*(?:am|pm)?/gi) || [];
-    defaults.dangerTimes = times.map(normalizeTime);
+    fields.dangerTimes = times.map(normalizeTime);
+  }
+
+  // Parse timezone (IANA name or city), read from the original casing
+  const timezoneMatch = message.match(/(?:timezone|time zone|tz)[:\s]*([^,\n]+)/i);
+  if (timezoneMatch) {
+    const timezone = parseTimezone(timezoneMatch[1]);
+    if (timezone) fields.timezone = timezone;
+  }
+
+  // Parse week start day ("Week: Sunday", "week starts sunday")
+  const weekMatch = lower.match(/week(?:\s*starts?)?(?:\s*on)?[:\s]+([a-z]+)/i);
+  if (weekMatch) {
+    const weekday = parseWeekday(weekMatch[1]);
+    if (weekday !== null) fields.weekStartDay = weekday;
   }
 
-  return defaults;
+  return fields;
 }
 
 function normalizeTime(timeStr: string): string {
@@ -283,7 +666,7 @@ function normalizeTime(timeStr: string): string {
   return `${h.toString().padStart(2, '0')}:${minutes.padStart(2, '0')}`;
 }
 
-function generateContractText(user: User, data: any, shameLevel: number): string {
+export function generateContractText(user: User, data: ContractData, shameLevel: number): string {
   const actions = data.binaryActions || DEFAULT_BINARY_ACTIONS;
   const actionList = actions.map((a: BinaryAction) =>
     `- ${a.name}: ${a.threshold} (${a.points} pts)`
@@ -293,18 +676,22 @@ function generateContractText(user: User, data: any, shameLevel: number): string
 
 GOAL: ${data.goal || 'Fitness & Fat Loss'}
 
-DAILY BINARY ACTIONS (Total: 10 points possible):
+DAILY BINARY ACTIONS (Total: ${getTotalPoints(actions)} points possible):
 ${actionList}
 
 SCHEDULE:
 - Wake: ${user.wake_time || '7:00am'}
 - Sleep: ${user.sleep_time || '10:00pm'}
 - Eating Window: ${user.eating_window_start || '12pm'} - ${user.eating_window_end || '8pm'}
-- Danger Times: ${JSON.parse(user.risk_times?.toString() || '["9pm"]').join(', ')}
+- Danger Times: ${getRiskTimes(user).join(', ') || '9pm'}
+- Timezone: ${user.timezone}
+- Week Starts: ${getWeekdayName(user.week_start_day ?? 1)}
 
 ACCOUNTABILITY:
 - Shame Level: ${shameLevel}/3
 - Loss Aversion: ${user.loss_aversion_enabled ? 'ENABLED (7 tokens/week)' : 'Disabled'}
+- Punishment at 0 tokens: ${data.punishment || 'not set'}
+- Referee: ${data.refereePhone || 'none'}
 
 RULES:
 1. Nightly lock is MANDATORY
@@ -315,6 +702,25 @@ RULES:
 Duration: 7 days from confirmation`;
 }
 
+// Button payloads map onto the exact replies the text steps expect
+export async function handleOnboardingPayload(user: User, payload: string): Promise<Reply> {
+  const [kind, value] = payload.split(':');
+
+  if (kind === 'shame' && user.onboarding_step === 'awaiting_shame_level') {
+    return await handleOnboarding(user, value);
+  }
+
+  if (kind === 'pack' && user.onboarding_step === 'awaiting_actions') {
+    return await handleOnboarding(user, value);
+  }
+
+  if (kind === 'contract' && value === 'locked' && user.onboarding_step === 'awaiting_contract_confirm') {
+    return await handleOnboarding(user, 'LOCKED');
+  }
+
+  return "That button is from an earlier step. Reply with text to continue.";
+}
+
 export function isOnboarding(user: User): boolean {
   return !user.onboarding_complete;
 }
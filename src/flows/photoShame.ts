@@ -6,6 +6,7 @@ import {
   getUserPatterns,
 } from '../db/queries';
 import { query, queryOne } from '../db/client';
+import { getUserToday } from '../services/time';
 
 export interface Photo {
   id: string;
@@ -17,14 +18,14 @@ export interface Photo {
 }
 
 export async function savePhoto(
-  userId: string,
+  user: User,
   type: 'baseline' | 'daily',
   url: string
 ): Promise<Photo> {
-  const date = new Date().toISOString().split('T')[0];
+  const date = getUserToday(user);
   const rows = await query<Photo>(
     'INSERT INTO photos (user_id, type, url, date) VALUES ($1, $2, $3, $4) RETURNING *',
-    [userId, type, url, date]
+    [user.id, type, url, date]
   );
   return rows[0];
 }
@@ -132,7 +133,7 @@ export async function handlePhotoMessage(
 
   if (!baseline) {
     // This is the baseline photo
-    await savePhoto(user.id, 'baseline', mediaUrl);
+    await savePhoto(user, 'baseline', mediaUrl);
     return `Baseline photo saved.
 
 This is your anchor. When you slip, you'll see this. When you succeed, you'll compare to this.
@@ -141,7 +142,7 @@ Take daily photos at the same time, same angle, same conditions.`;
   }
 
   // This is a daily photo
-  await savePhoto(user.id, 'daily', mediaUrl);
+  await savePhoto(user, 'daily', mediaUrl);
 
   return `Daily photo logged.
 
@@ -0,0 +1,62 @@
+import { User, Contract, ScoreApproval } from '../db/queries';
+import { queueMessageTo } from '../services/outbox';
+import { buildTemplate } from '../services/templates';
+
+// The referee is someone the user named at onboarding to witness the
+// punishment. They hear when it's due, and are asked to sign off on changes
+// to a day that already cost tokens (answered by APPROVE/DENY and a code).
+
+// International format only: a local "050..." number is ambiguous
+export function parseRefereePhone(text: string): string | null {
+  const match = text.match(/\+?\d[\d\s().-]{6,}\d/);
+  if (!match) return null;
+
+  const digits = match[0].replace(/\D/g, '');
+  if (!match[0].startsWith('+') && digits.startsWith('0')) return null;
+  if (digits.length < 8 || digits.length > 15) return null;
+
+  return `+${digits}`;
+}
+
+// The user can't referee themselves: their phone arrives as "whatsapp:+..."
+export function isOwnPhone(user: User, phone: string): boolean {
+  return user.phone.replace(/\D/g, '') === phone.replace(/\D/g, '');
+}
+
+export async function notifyReferee(user: User, contract: Contract): Promise<boolean> {
+  if (!contract.referee_phone || !contract.punishment) return false;
+
+  const name = user.name || user.phone;
+  await queueMessageTo(
+    user,
+    contract.referee_phone,
+    `${name} named you as referee for their "${contract.goal}" contract.
+
+They lost every token this week. The punishment they agreed to:
+${contract.punishment}
+
+Make sure it happens.`,
+    {
+      flow: 'referee',
+      template: buildTemplate('referee_alert', { name, punishment: contract.punishment }),
+    }
+  );
+
+  return true;
+}
+
+export async function requestScoreApproval(user: User, approval: ScoreApproval, request: string): Promise<void> {
+  const name = user.name || user.phone;
+  await queueMessageTo(
+    user,
+    approval.referee_phone,
+    `${name} wants to change ${approval.date}, a day that already cost them tokens:
+${request}
+
+Reply APPROVE ${approval.code} or DENY ${approval.code}.`,
+    {
+      flow: 'referee',
+      template: buildTemplate('referee_approval', { name, request, code: approval.code }),
+    }
+  );
+}
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import {
+  User,
+  ScheduledJobRecord,
+  upsertScheduledJob,
+  deactivateScheduledJob,
+  getUserJobs,
+} from '../db/queries';
+import {
+  addDays,
+  getLocalTime,
+  getNextOccurrence,
+  getUserToday,
+  getWeekdayName,
+  parseWeekday,
+  zonedTimeToUtc,
+} from '../services/time';
+
+// "Remind me at 3pm to walk" and friends. Reminders are scheduled jobs like
+// everything else, so they survive restarts and fire once across replicas.
+
+const MAX_ACTIVE_REMINDERS = 20;
+
+export interface ParsedReminder {
+  text: string;
+  recurrence: 'daily' | 'weekly' | null;
+  localTime?: string; // HH:MM, for clock-time reminders
+  weekday?: number;
+  runAt: Date;
+}
+
+export function isReminderRequest(message: string): boolean {
+  return /\bremind me\b/i.test(message);
+}
+
+export function isReminderCommand(message: string): boolean {
+  const lower = message.trim().toLowerCase();
+  return lower === 'reminders' || lower === 'list reminders' || /^cancel reminders?\b/.test(lower);
+}
+
+export async function handleReminderRequest(user: User, message: string): Promise<string> {
+  const parsed = parseReminder(message, user.timezone);
+
+  if (!parsed) {
+    return `When? Try "remind me at 3pm to walk", "remind me in 20 minutes to stretch" or "remind me every day at 7am to weigh in". Say am or pm if the hour could be either.`;
+  }
+
+  if (!parsed.text) {
+    return 'Remind you to do what? Say it in one line, e.g. "remind me at 3pm to walk".';
+  }
+
+  const active = await getUserJobs(user.id, 'reminder');
+  if (active.length >= MAX_ACTIVE_REMINDERS) {
+    return `You already have ${active.length} reminders. Cancel some first ("reminders" lists them).`;
+  }
+
+  await upsertScheduledJob(user.id, {
+    jobKey: `reminder:${user.id}:${randomUUID()}`,
+    type: 'reminder',
+    payload: { text: parsed.text },
+    recurrence: parsed.recurrence,
+    localTime: parsed.localTime,
+    weekday: parsed.weekday,
+    timezone: user.timezone,
+    nextRunAt: parsed.runAt,
+  });
+
+  return `⏰ Set: "${parsed.text}" ${describeSchedule(user, parsed.recurrence, parsed.runAt, parsed.weekday)}.`;
+}
+
+export async function handleReminderCommand(user: User, message: string): Promise<string> {
+  const lower = message.trim().toLowerCase();
+  const reminders = await getUserJobs(user.id, 'reminder');
+
+  const cancel = lower.match(/^cancel reminders?\s*(all|\d+)?/);
+  if (cancel) {
+    if (!cancel[1]) {
+      return `Which one? ${reminders.length ? `Reply "cancel reminder 1" (see "reminders") or "cancel reminders all".` : 'You have no reminders.'}`;
+    }
+
+    const targets = cancel[1] === 'all'
+      ? reminders
+      : [reminders[parseInt(cancel[1], 10) - 1]].filter(Boolean);
+
+    if (targets.length === 0) {
+      return `No reminder ${cancel[1]}. Reply "reminders" to see the list.`;
+    }
+
+    for (const reminder of targets) {
+      await deactivateScheduledJob(user.id, reminder.id);
+    }
+
+    return targets.length === 1
+      ? `Cancelled: "${targets[0].payload.text}".`
+      : `Cancelled ${targets.length} reminders.`;
+  }
+
+  if (reminders.length === 0) {
+    return 'No reminders set. Try "remind me at 3pm to walk".';
+  }
+
+  const lines = reminders.map((r, i) => `${i + 1}. "${r.payload.text}" ${describeJob(user, r)}`);
+
+  return `Your reminders:
+
+${lines.join('\n')}
+
+Reply "cancel reminder N" to drop one.`;
+}
+
+export function generateReminderMessage(text: string): string {
+  return `⏰ Reminder: ${text}`;
+}
+
+// Returns null when no time could be found. Understands "in 20 minutes",
+// "at 3pm", "tomorrow at 9am", "tonight at 10", "on friday at 5pm", "every
+// day at 7am", "every night at 10" and "every monday at 6pm".
+export function parseReminder(
+  message: string,
+  timezone: string,
+  now: Date = new Date()
+): ParsedReminder | null {
+  let rest = message.replace(/^.*?\b(?:remind|ping|nudge|text|message) me\b/i, '').trim();
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ').replace(/\s+/g, ' ').trim();
+    return match;
+  };
+
+  const relative = take(/\bin\s+(\d+|an?|half an)\s*(minutes?|mins?|hours?|hrs?)\b/i);
+  const every = take(/\bevery\s+(day|morning|evening|night|[a-z]+day)\b/i);
+  const on = take(/\bon\s+([a-z]+day)\b/i);
+  const tomorrow = take(/\btomorrow\b/i);
+  const at = take(/\bat\s+(\d{1,2}(?::\d{2})?\s*(?:am|pm)?|noon|midnight)\b/i);
+  const today = take(/\btoday\b|\btonight\b|\bthis\s+(?:morning|afternoon|evening)\b/i);
+
+  const text = rest.replace(/^(to|that|about)\s+/i, '').replace(/[.!]+$/, '').trim();
+
+  if (relative) {
+    const amount = /^(a|an)$/i.test(relative[1]) ? 1 : /^half an$/i.test(relative[1]) ? 0.5 : parseInt(relative[1], 10);
+    const minutes = /^h/i.test(relative[2]) ? amount * 60 : amount;
+    if (!minutes || minutes <= 0) return null;
+    return { text, recurrence: null, runAt: new Date(now.getTime() + minutes * 60000) };
+  }
+
+  const period = every ? toDayPeriod(every[1]) : today ? toDayPeriod(today[0]) : null;
+  const times = at ? parseClock(at[1], period) : period ? [defaultTimeFor(period)] : [];
+
+  // "at 9" with nothing else to go on: whichever 9 comes first
+  if (!every && !on && !tomorrow && times.length > 1) {
+    const runAt = times
+      .map(t => getNextOccurrence(t, timezone, now))
+      .reduce((a, b) => (b < a ? b : a));
+    return { text, recurrence: null, runAt };
+  }
+
+  // Otherwise an hour that could be either is asked about, not guessed
+  if (times.length !== 1) return null;
+  const time = times[0];
+
+  if (every) {
+    if (/^[a-z]+day$/i.test(every[1]) && every[1].toLowerCase() !== 'day') {
+      // "every weekday" isn't a single day, and there's no schedule for it yet
+      const weekday = parseWeekday(every[1]);
+      if (weekday === null) return null;
+
+      return {
+        text,
+        recurrence: 'weekly',
+        localTime: time,
+        weekday,
+        runAt: getNextOccurrence(time, timezone, now, weekday),
+      };
+    }
+
+    return { text, recurrence: 'daily', localTime: time, runAt: getNextOccurrence(time, timezone, now) };
+  }
+
+  if (on) {
+    const weekday = parseWeekday(on[1]);
+    if (weekday === null) return null;
+    return { text, recurrence: null, runAt: getNextOccurrence(time, timezone, now, weekday) };
+  }
+
+  if (tomorrow) {
+    const date = addDays(getLocalTime(timezone, now).date, 1);
+    return { text, recurrence: null, runAt: zonedTimeToUtc(date, time, timezone) };
+  }
+
+  return { text, recurrence: null, runAt: getNextOccurrence(time, timezone, now) };
+}
+
+type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+function toDayPeriod(text: string): DayPeriod | null {
+  const match = text.toLowerCase().match(/morning|afternoon|evening|night/);
+  return match ? (match[0] as DayPeriod) : null;
+}
+
+// "3pm" -> ["15:00"]. A bare hour goes by the period named with it ("every
+// night at 10" is 22:00). Without one, 1 to 6 means the afternoon (nobody
+// asks for a 3am reminder) and 7 to 11 could be either, so both come back.
+function parseClock(text: string, period: DayPeriod | null): string[] {
+  const lower = text.trim().toLowerCase();
+  if (lower === 'noon') return ['12:00'];
+  if (lower === 'midnight') return ['00:00'];
+
+  const match = lower.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return [];
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return [];
+
+  const suffix = match[3] || (hours > 12 || hours === 0 ? null : periodSuffix(hours, period));
+  if (suffix === 'pm' && hours < 12) return [formatTime(hours + 12, minutes)];
+  if (suffix === 'am' && hours === 12) return [formatTime(0, minutes)];
+  if (suffix === 'either') return [formatTime(hours, minutes), formatTime(hours + 12, minutes)];
+  return [formatTime(hours, minutes)];
+}
+
+// am or pm for a bare hour from 1 to 12
+function periodSuffix(hours: number, period: DayPeriod | null): 'am' | 'pm' | 'either' | null {
+  switch (period) {
+    case 'morning':
+      return 'am';
+    case 'afternoon':
+    case 'evening':
+      return 'pm';
+    case 'night':
+      return hours <= 4 || hours === 12 ? 'am' : 'pm'; // "at 1" tonight is after midnight
+    default:
+      if (hours <= 6) return 'pm';
+      return hours === 12 ? null : 'either';
+  }
+}
+
+function formatTime(hours: number, minutes: number): string {
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+function defaultTimeFor(period: DayPeriod): string {
+  switch (period) {
+    case 'morning':
+      return '08:00';
+    case 'afternoon':
+      return '14:00';
+    case 'evening':
+      return '18:00';
+    case 'night':
+      return '21:00';
+  }
+}
+
+function describeJob(user: User, job: ScheduledJobRecord): string {
+  return describeSchedule(user, job.recurrence, new Date(job.next_run_at), job.weekday ?? undefined);
+}
+
+function describeSchedule(
+  user: User,
+  recurrence: 'daily' | 'weekly' | null,
+  runAt: Date,
+  weekday?: number
+): string {
+  const local = getLocalTime(user.timezone, runAt);
+  const clock = formatClock(local.hours, local.minutes);
+
+  if (recurrence === 'daily') return `every day at ${clock}`;
+  if (recurrence === 'weekly') return `every ${getWeekdayName(weekday ?? local.weekday)} at ${clock}`;
+
+  const today = getUserToday(user);
+  if (local.date === today) return `today at ${clock}`;
+  if (local.date === addDays(today, 1)) return `tomorrow at ${clock}`;
+  return `${getWeekdayName(local.weekday)} ${local.date} at ${clock}`;
+}
+
+function formatClock(hours: number, minutes: number): string {
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')}${suffix}`;
+}
@@ -0,0 +1,217 @@
+import {
+  User,
+  Contract,
+  RiskProposal,
+  getUserPatterns,
+  getLogsInRange,
+  updateUser,
+  createRiskProposal,
+  getPendingRiskProposal,
+  getRecentRiskProposals,
+  decideRiskProposal,
+} from '../db/queries';
+import { Reply } from '../services/messaging';
+import { addDays, getUserToday } from '../services/time';
+
+// Learns danger windows from when the user actually fails (failure_time and
+// time_mention patterns, times in miss reasons on low-score days) and offers
+// to add an intercept before them. Nothing is scheduled without a yes.
+
+const MIN_OCCURRENCES = 3;
+const LOOKBACK_DAYS = 28;
+const LOW_SCORE_RATIO = 0.5;
+const INTERCEPT_LEAD_MINUTES = 30; // intercept lands before the failure hour
+const COVERED_WITHIN_MINUTES = 90; // an existing intercept this soon before counts
+const REASK_AFTER_DAYS = 30;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface RiskCandidate {
+  failureHour: number;
+  occurrences: number;
+  interceptTime: string; // HH:MM
+}
+
+// risk_times is JSONB; older rows hold a JSON string instead of an array
+export function getRiskTimes(user: User): string[] {
+  const raw = user.risk_times as unknown;
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw === 'string') {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+export async function findRiskCandidates(user: User, contract: Contract): Promise<RiskCandidate[]> {
+  const counts = new Map<number, number>();
+  const add = (hour: number | null, weight: number) => {
+    if (hour !== null) counts.set(hour, (counts.get(hour) || 0) + weight);
+  };
+
+  const patterns = await getUserPatterns(user.id, 100);
+  for (const pattern of patterns) {
+    if (pattern.pattern_type === 'failure_time' || pattern.pattern_type === 'time_mention') {
+      add(parseHour(pattern.content), pattern.frequency);
+    }
+  }
+
+  // Low-score days: when did they say it went wrong?
+  const today = getUserToday(user);
+  const logs = await getLogsInRange(user.id, addDays(today, -LOOKBACK_DAYS), addDays(today, -1));
+  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+
+  for (const log of logs) {
+    if (log.total_score >= totalPossible * LOW_SCORE_RATIO || !log.miss_reason) continue;
+    for (const time of log.miss_reason.match(/\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}/gi) || []) {
+      add(parseHour(time), 1);
+    }
+  }
+
+  const riskMinutes = getRiskTimes(user)
+    .map(toMinutes)
+    .filter((m): m is number => m !== null);
+
+  return Array.from(counts.entries())
+    .filter(([, occurrences]) => occurrences >= MIN_OCCURRENCES)
+    .map(([failureHour, occurrences]) => ({
+      failureHour,
+      occurrences,
+      interceptTime: formatMinutes(failureHour * 60 - INTERCEPT_LEAD_MINUTES),
+    }))
+    .filter(candidate => !isCovered(candidate.failureHour, riskMinutes))
+    .sort((a, b) => b.occurrences - a.occurrences);
+}
+
+// Proposes the strongest new danger window, if any. One question at a time:
+// nothing new while a proposal is open, and a declined hour isn't re-asked
+// for a month.
+export async function proposeRiskIntercept(user: User, contract: Contract): Promise<Reply | null> {
+  if (await getPendingRiskProposal(user.id)) return null;
+
+  const recent = await getRecentRiskProposals(user.id, REASK_AFTER_DAYS);
+  const candidates = await findRiskCandidates(user, contract);
+  const candidate = candidates.find(c => !recent.some(p => p.failure_hour === c.failureHour));
+  if (!candidate) return null;
+
+  const proposal = await createRiskProposal(
+    user.id,
+    candidate.interceptTime,
+    candidate.failureHour,
+    candidate.occurrences
+  );
+
+  return {
+    body: `You've failed around ${formatHour(candidate.failureHour)} ${candidate.occurrences} times.
+
+That's a danger zone you haven't covered. Add an intercept at ${formatClock(proposal.local_time)}?
+
+Reply ADD INTERCEPT or NO INTERCEPT.`,
+    buttons: [
+      { id: `risk:add:${proposal.id}`, title: 'Add intercept' },
+      { id: `risk:no:${proposal.id}`, title: 'No' },
+    ],
+  };
+}
+
+export function isRiskProposalReply(message: string): boolean {
+  const lower = message.trim().toLowerCase();
+  return lower === 'add intercept' || lower === 'no intercept';
+}
+
+export async function handleRiskProposalReply(user: User, message: string): Promise<Reply> {
+  const proposal = await getPendingRiskProposal(user.id);
+  if (!proposal) {
+    return 'There is no intercept waiting for an answer.';
+  }
+
+  const accept = message.trim().toLowerCase() === 'add intercept';
+  return await decide(user, proposal.id, accept);
+}
+
+export async function handleRiskProposalPayload(user: User, payload: string): Promise<Reply> {
+  const [, choice, proposalId] = payload.split(':');
+
+  // Payloads come from the client; a malformed id would fail the uuid cast
+  if (!proposalId || !UUID_PATTERN.test(proposalId)) {
+    return 'That button is no longer valid.';
+  }
+
+  return await decide(user, proposalId, choice === 'add');
+}
+
+// Returns the reply; the caller reschedules the user's jobs on acceptance
+async function decide(user: User, proposalId: string, accept: boolean): Promise<Reply> {
+  const proposal = await decideRiskProposal(user.id, proposalId, accept ? 'accepted' : 'declined');
+  if (!proposal) {
+    return 'Already answered.';
+  }
+
+  if (!accept) {
+    return `No intercept at ${formatClock(proposal.local_time)}. Your call. I'll keep watching the pattern.`;
+  }
+
+  await addRiskTime(user, proposal);
+
+  return `Intercept added at ${formatClock(proposal.local_time)}.
+
+I'll check in daily, before ${formatHour(proposal.failure_hour)} gets you.`;
+}
+
+async function addRiskTime(user: User, proposal: RiskProposal): Promise<void> {
+  const riskTimes = getRiskTimes(user);
+  if (riskTimes.includes(proposal.local_time)) return;
+
+  await updateUser(user.id, {
+    risk_times: [...riskTimes, proposal.local_time],
+  });
+}
+
+function isCovered(failureHour: number, riskMinutes: number[]): boolean {
+  const failureAt = failureHour * 60;
+  return riskMinutes.some(m => {
+    const before = (failureAt - m + 1440) % 1440;
+    return before <= COVERED_WITHIN_MINUTES;
+  });
+}
+
+// Local hour of a time string. Bare numbers ("9") are skipped: without
+// am/pm or minutes they're as likely a count as a time.
+function parseHour(text: string): number | null {
+  const minutes = toMinutes(text);
+  return minutes === null ? null : Math.floor(minutes / 60);
+}
+
+function toMinutes(text: string): number | null {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?:[:\s](\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(totalMinutes: number): string {
+  const wrapped = ((totalMinutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour >= 12 ? 'pm' : 'am';
+  return `${hour % 12 || 12}${suffix}`;
+}
+
+function formatClock(time: string): string {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')}${suffix}`;
+}
@@ -0,0 +1,279 @@
+import { randomInt } from 'crypto';
+import { config } from '../config/env';
+import {
+  User,
+  Contract,
+  DailyLog,
+  ScoreChangeKind,
+  getDailyLog,
+  getLogsInRange,
+  getOrCreateWeekTokens,
+  getActiveContract,
+  findUserById,
+  createScoreApproval,
+  findPendingScoreApproval,
+  decideScoreApproval,
+} from '../db/queries';
+import { withUserLock } from '../db/client';
+import { queueMessage, queueMessageTo } from '../services/outbox';
+import { addDays, getUserToday, parseWeekday, zonedTimeToUtc } from '../services/time';
+import {
+  ScoreUpdate,
+  updateScores,
+  revertScores,
+  parseScoreUpdates,
+  parseScoreUpdatesWithLLM,
+} from './scorecard';
+import { requestScoreApproval } from './referee';
+
+// Fixing the record after the fact: "yesterday I did strength", "correct
+// protein to done", "undo last". Past days stay open for the backfill
+// window; a day that already cost tokens only changes if the referee agrees.
+
+const UNDO = /^undo(?:\s+(?:last|that|it))?[.!]?$/i;
+const CORRECTION = /^(?:correct|fix)\s+(?:(yesterday)['’]?s?\s+)?(.+?)\s+to\s+(.+)$/i;
+// Only unambiguous past days: "on friday" is as often a plan as a report
+const PAST_DAY = /\b(?:yesterday|last\s+((?:mon|tues|wednes|thurs|fri|satur|sun)day))\b/i;
+const FUTURE = /\b(?:will|won['’]?t|going to|gonna|tomorrow|tonight|next)\b|\w['’]ll\b/i;
+const REFEREE_DECISION = /^(approve|deny)\s+(\d{4})$/i;
+
+type DayStatus = 'open' | 'closed' | 'needs_referee';
+
+interface ScoreChangeRequest {
+  date: string;
+  kind: ScoreChangeKind;
+  updates: ScoreUpdate[];
+  undoes: string | null;
+}
+
+export function isScoreCorrection(message: string): boolean {
+  const text = message.trim();
+  return UNDO.test(text) || CORRECTION.test(text) || (PAST_DAY.test(text) && !FUTURE.test(text));
+}
+
+// Null when a past-day message turns out not to log anything ("yesterday
+// was rough"), so it can be handled as ordinary conversation
+export async function handleScoreCorrection(
+  user: User,
+  contract: Contract,
+  message: string
+): Promise<string | null> {
+  const text = message.trim();
+  const today = getUserToday(user);
+
+  if (UNDO.test(text)) {
+    return await undoLast(user, contract);
+  }
+
+  const correction = text.match(CORRECTION);
+  if (correction) {
+    const updates = await readUpdates(`${correction[2]} ${correction[3]}`, contract);
+    if (updates.length === 0) {
+      return `I couldn't tell what to set "${correction[2]}" to. Try "correct protein to done" or "correct walk to 8000 steps".`;
+    }
+    const date = correction[1] ? addDays(today, -1) : today;
+    return await changeScores(user, contract, { date, kind: 'correct', updates, undoes: null });
+  }
+
+  const day = text.match(PAST_DAY);
+  if (!day || FUTURE.test(text)) return null;
+
+  const updates = await readUpdates(text.replace(PAST_DAY, ' '), contract);
+  if (updates.length === 0) return null;
+
+  const date = day[1] ? getLastWeekday(today, parseWeekday(day[1])!) : addDays(today, -1);
+  return await changeScores(user, contract, { date, kind: 'backfill', updates, undoes: null });
+}
+
+export function isRefereeDecision(message: string): boolean {
+  return REFEREE_DECISION.test(message.trim());
+}
+
+// The referee may not be a user at all, so this runs before the sender is
+// looked up, and outside the sender's lock: only the user whose day it is
+// gets locked. False when no open request matches; the message then goes
+// through as usual.
+export async function handleRefereeDecision(from: string, message: string): Promise<boolean> {
+  const match = message.trim().match(REFEREE_DECISION);
+  if (!match) return false;
+
+  const pending = await findPendingScoreApproval(from, match[2]);
+  if (!pending) return false;
+
+  const user = await findUserById(pending.user_id);
+  if (!user) return false;
+
+  const approve = match[1].toLowerCase() === 'approve';
+  const name = user.name || user.phone;
+
+  await withUserLock(user.phone, async () => {
+    // The window still applies: an answer that comes too late changes nothing
+    if (approve && await getDayStatus(user, pending.date) === 'closed') {
+      const expired = await decideScoreApproval(pending.id, 'expired');
+      if (!expired) {
+        await queueMessageTo(user, from, 'Already answered.', { flow: 'referee' });
+        return;
+      }
+      await queueMessageTo(user, from, `Too late: ${name}'s ${expired.date} can't be changed anymore.`, { flow: 'referee' });
+      await queueMessage(user, `Your referee answered too late. ${expired.date} stands.`, { flow: 'correction' });
+      return;
+    }
+
+    const approval = await decideScoreApproval(pending.id, approve ? 'approved' : 'denied');
+    if (!approval) {
+      await queueMessageTo(user, from, 'Already answered.', { flow: 'referee' });
+      return;
+    }
+
+    if (!approve) {
+      await queueMessageTo(user, from, `Denied. ${name}'s ${approval.date} stands.`, { flow: 'referee' });
+      await queueMessage(user, `Your referee denied the change to ${approval.date}. It stands.`, { flow: 'correction' });
+      return;
+    }
+
+    const contract = await getActiveContract(user.id);
+    const result = !contract
+      ? null
+      : approval.kind === 'undo'
+        ? await revertScores(user, contract, approval.date, approval.undoes!, pending.referee_phone)
+        : (await updateScores(user, contract, approval.updates, {
+            date: approval.date,
+            kind: approval.kind,
+            approvedBy: pending.referee_phone,
+          })).message;
+
+    if (!result) {
+      await queueMessageTo(user, from, `Approved, but there was nothing left to change on ${name}'s ${approval.date}.`, { flow: 'referee' });
+      return;
+    }
+
+    await queueMessageTo(user, from, `Approved. ${name}'s ${approval.date} is updated.`, { flow: 'referee' });
+    await queueMessage(user, `Your referee approved the change to ${approval.date}.
+
+${result}
+
+Tokens already lost stay lost.`, { flow: 'correction' });
+  });
+
+  return true;
+}
+
+async function undoLast(user: User, contract: Contract): Promise<string> {
+  const today = getUserToday(user);
+  const days = Math.ceil(config.scoring.backfillHours / 24);
+  const logs = await getLogsInRange(user.id, addDays(today, -days), today);
+
+  const last = findLastChange(logs);
+  if (!last) {
+    return 'Nothing to undo.';
+  }
+
+  return await changeScores(user, contract, { date: last.date, kind: 'undo', updates: [], undoes: last.at });
+}
+
+// Applies the change, unless the day is past the window or needs the referee
+async function changeScores(user: User, contract: Contract, request: ScoreChangeRequest): Promise<string> {
+  const status = await getDayStatus(user, request.date);
+
+  if (status === 'closed') {
+    return `Too late to change ${request.date}. Days stay open for ${config.scoring.backfillHours}h after they end.`;
+  }
+
+  if (status === 'needs_referee') {
+    return await askReferee(user, contract, request);
+  }
+
+  if (request.kind === 'undo') {
+    return (await revertScores(user, contract, request.date, request.undoes!)) || 'Nothing to undo.';
+  }
+
+  return (await updateScores(user, contract, request.updates, { date: request.date, kind: request.kind })).message;
+}
+
+// Today is always open. A past day is open for the backfill window, unless
+// settlement already charged tokens for it.
+async function getDayStatus(user: User, date: string): Promise<DayStatus> {
+  if (date === getUserToday(user)) return 'open';
+
+  const dayEnd = zonedTimeToUtc(addDays(date, 1), '00:00', user.timezone);
+  if (Date.now() > dayEnd.getTime() + config.scoring.backfillHours * 60 * 60 * 1000) {
+    return 'closed';
+  }
+
+  const log = await getDailyLog(user.id, date);
+  if (!log?.settled_at) return 'open';
+
+  const tokens = await getOrCreateWeekTokens(user, date);
+  return tokens.loss_events.some(e => e.date === date) ? 'needs_referee' : 'open';
+}
+
+async function askReferee(user: User, contract: Contract, request: ScoreChangeRequest): Promise<string> {
+  if (!contract.referee_phone) {
+    return `${request.date} was already settled and cost you tokens. With no referee to sign off, it stands.`;
+  }
+
+  const approval = await createScoreApproval({
+    user_id: user.id,
+    referee_phone: contract.referee_phone,
+    code: await pickApprovalCode(contract.referee_phone),
+    date: request.date,
+    kind: request.kind,
+    updates: request.updates,
+    undoes: request.undoes,
+  });
+
+  await requestScoreApproval(user, approval, await describeRequest(user, request));
+
+  return `${request.date} was already settled and cost you tokens. I've asked your referee to approve the change. It only goes through if they do.`;
+}
+
+// Unique among the referee's open requests, or "APPROVE 1234" could mean either
+async function pickApprovalCode(refereePhone: string): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = String(randomInt(1000, 10000));
+    if (!(await findPendingScoreApproval(refereePhone, code))) return code;
+  }
+  throw new Error(`No free approval code for referee ${refereePhone}`);
+}
+
+async function describeRequest(user: User, request: ScoreChangeRequest): Promise<string> {
+  if (request.kind === 'undo') {
+    const log = await getDailyLog(user.id, request.date);
+    const actions = (log?.score_audit || []).filter(e => e.at === request.undoes).map(e => e.action);
+    return `undo their last log (${actions.join(', ')})`;
+  }
+
+  return request.updates
+    .map(u => `${u.action} ${u.completed ? 'done' : 'missed'}${u.value !== undefined ? ` (${u.value})` : ''}`)
+    .join(', ');
+}
+
+// The latest write that hasn't been undone yet. Undos themselves aren't
+// undoable; log it again instead.
+function findLastChange(logs: DailyLog[]): { date: string; at: string } | null {
+  const entries = logs.flatMap(log => (log.score_audit || []).map(e => ({ ...e, date: log.date })));
+  const undone = new Set(entries.filter(e => e.kind === 'undo').map(e => e.undoes));
+
+  const last = entries
+    .filter(e => e.kind !== 'undo' && !undone.has(e.at))
+    .sort((a, b) => b.at.localeCompare(a.at))[0];
+
+  return last ? { date: last.date, at: last.at } : null;
+}
+
+// Rules first; the LLM reads what they couldn't
+async function readUpdates(text: string, contract: Contract): Promise<ScoreUpdate[]> {
+  const parsed = parseScoreUpdates(text, contract);
+  if (parsed.updates.length === 0) return [];
+
+  return parsed.unresolved.length > 0
+    ? await parseScoreUpdatesWithLLM(text, contract, parsed.updates)
+    : parsed.updates;
+}
+
+// Most recent past date on that weekday, never today
+function getLastWeekday(today: string, weekday: number): string {
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const daysBack = ((todayWeekday - weekday + 6) % 7) + 1;
+  return addDays(today, -daysBack);
+}
@@ -3,61 +3,193 @@ import {
   Contract,
   DailyLog,
   BinaryAction,
+  ScoreAuditEntry,
+  ScoreChangeKind,
   getTodayLog,
+  getDailyLog,
   getRecentLogs,
+  getLogsInRange,
   upsertDailyLog,
 } from '../db/queries';
+import { getUserToday, addDays } from '../services/time';
+import { extractScoreUpdates } from '../services/llm';
+import {
+  Quantity,
+  getActionRule,
+  meetsRule,
+  convertQuantity,
+  formatThreshold,
+  parseQuantities,
+} from './contractEdits';
+import { getStreaks, formatStreaks } from './streaks';
 
 export interface ScoreUpdate {
   action: string;
   completed: boolean;
-  value?: number | string;
+  value?: number; // the amount logged, in the action's unit
+}
+
+export interface ScoreWriteOptions {
+  date?: string; // a past day being backfilled; defaults to the user's today
+  kind?: ScoreChangeKind;
+  approvedBy?: string; // referee who allowed a change to a settled day
 }
 
-export async function updateScore(
+// One action's new state; null points unlogs it, null value clears the amount
+interface ScoreChange {
+  action: string;
+  points: number | null;
+  value?: number | null;
+}
+
+// Applies every update from one message in a single write, with one
+// combined reply
+export async function updateScores(
   user: User,
   contract: Contract,
-  update: ScoreUpdate
+  updates: ScoreUpdate[],
+  options: ScoreWriteOptions = {}
 ): Promise<{ newScore: number; totalPossible: number; message: string }> {
-  const today = new Date().toISOString().split('T')[0];
-  let log = await getTodayLog(user.id);
+  const today = getUserToday(user);
+  const date = options.date || today;
+  const log = await getDailyLog(user.id, date);
+
+  const changes: ScoreChange[] = [];
+  const lines: string[] = [];
+  const unknown: string[] = [];
+
+  for (const update of updates) {
+    const action = contract.binary_actions.find(
+      a => a.name.toLowerCase() === update.action.toLowerCase()
+    );
+
+    if (!action) {
+      unknown.push(update.action);
+      continue;
+    }
 
-  const scores: Record<string, number> = log?.scores || {};
-  const action = contract.binary_actions.find(
-    a => a.name.toLowerCase() === update.action.toLowerCase()
-  );
+    // Keep the raw amount so reports can show what was actually logged
+    changes.push({
+      action: action.name,
+      points: update.completed ? action.points : 0,
+      value: update.value,
+    });
+
+    const emoji = update.completed ? '✓' : '✗';
+    const amount = update.value !== undefined
+      ? ` ${formatAmount(update.value, action)} (${formatThreshold(action)})`
+      : '';
+    lines.push(`${emoji} ${action.name}:${amount} ${update.completed ? action.points : 0}/${action.points} pts`);
+  }
 
-  if (!action) {
+  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+
+  if (lines.length === 0) {
     return {
-      newScore: 0,
-      totalPossible: 0,
-      message: `Unknown action: ${update.action}`,
+      newScore: log?.total_score || 0,
+      totalPossible,
+      message: `Unknown action: ${unknown.join(', ')}`,
     };
   }
 
-  scores[action.name] = update.completed ? action.points : 0;
-  const totalScore = Object.values(scores).reduce((a, b) => a + b, 0);
-  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+  const written = await writeScores(user.id, date, log, changes, {
+    kind: options.kind || 'log',
+    approvedBy: options.approvedBy,
+  });
 
-  await upsertDailyLog(user.id, today, {
-    scores,
-    total_score: totalScore,
+  const message = `${lines.join('\n')}
+
+${formatDayLabel(date, today)}: ${written.total_score}/${totalPossible}`;
+
+  return { newScore: written.total_score, totalPossible, message };
+}
+
+// Puts back what one earlier write (every entry sharing `at`) changed
+export async function revertScores(
+  user: User,
+  contract: Contract,
+  date: string,
+  at: string,
+  approvedBy?: string
+): Promise<string | null> {
+  const log = await getDailyLog(user.id, date);
+  const entries = (log?.score_audit || []).filter(e => e.at === at && e.kind !== 'undo');
+  if (!log || entries.length === 0) return null;
+
+  const changes: ScoreChange[] = entries
+    .slice()
+    .reverse()
+    .map(e => ({ action: e.action, points: e.from, value: e.from_value }));
+
+  const written = await writeScores(user.id, date, log, changes, { kind: 'undo', undoes: at, approvedBy });
+
+  const lines = entries.map(e => {
+    const action = contract.binary_actions.find(a => a.name === e.action);
+    const before = e.from === null ? 'not logged' : `${e.from}/${action?.points ?? e.from} pts`;
+    return `↩ ${e.action}: back to ${before}`;
   });
+  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+
+  return `${lines.join('\n')}
+
+${formatDayLabel(date, getUserToday(user))}: ${written.total_score}/${totalPossible}`;
+}
+
+// Every change lands in the day's score_audit, so corrections stay traceable
+async function writeScores(
+  userId: string,
+  date: string,
+  log: DailyLog | null,
+  changes: ScoreChange[],
+  meta: { kind: ScoreChangeKind; undoes?: string; approvedBy?: string }
+): Promise<DailyLog> {
+  const scores: Record<string, number> = { ...(log?.scores || {}) };
+  const values: Record<string, number> = { ...(log?.action_values || {}) };
+  const audit: ScoreAuditEntry[] = [...(log?.score_audit || [])];
+  const at = new Date().toISOString();
+
+  for (const change of changes) {
+    const entry: ScoreAuditEntry = {
+      at,
+      kind: meta.kind,
+      action: change.action,
+      from: scores[change.action] ?? null,
+      to: change.points,
+      from_value: values[change.action] ?? null,
+      to_value: change.value === undefined ? values[change.action] ?? null : change.value,
+    };
+    if (meta.undoes) entry.undoes = meta.undoes;
+    if (meta.approvedBy) entry.approved_by = meta.approvedBy;
+    audit.push(entry);
+
+    if (change.points === null) delete scores[change.action];
+    else scores[change.action] = change.points;
 
-  const emoji = update.completed ? '✓' : '✗';
-  const message = `${emoji} ${action.name}: ${update.completed ? action.points : 0}/${action.points} pts
+    if (change.value === null) delete values[change.action];
+    else if (change.value !== undefined) values[change.action] = change.value;
+  }
 
-Today: ${totalScore}/${totalPossible}`;
+  return upsertDailyLog(userId, date, {
+    scores,
+    action_values: values,
+    score_audit: audit,
+    total_score: Object.values(scores).reduce((a, b) => a + b, 0),
+  });
+}
 
-  return { newScore: totalScore, totalPossible, message };
+function formatDayLabel(date: string, today: string): string {
+  if (date === today) return 'Today';
+  if (date === addDays(today, -1)) return 'Yesterday';
+  return date;
 }
 
 export async function getCurrentScore(
   user: User,
   contract: Contract
 ): Promise<string> {
-  const log = await getTodayLog(user.id);
+  const log = await getTodayLog(user);
   const scores: Record<string, number> = log?.scores || {};
+  const values: Record<string, number> = log?.action_values || {};
   const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
   const currentScore = log?.total_score || 0;
 
@@ -66,21 +198,29 @@ export async function getCurrentScore(
   for (const action of contract.binary_actions) {
     const score = scores[action.name] ?? 0;
     const emoji = score > 0 ? '✓' : '○';
-    statusLines.push(`${emoji} ${action.name}: ${score}/${action.points}`);
+    const amount = values[action.name] !== undefined ? ` (${formatAmount(values[action.name], action)})` : '';
+    statusLines.push(`${emoji} ${action.name}: ${score}/${action.points}${amount}`);
   }
 
+  const streaks = formatStreaks(await getStreaks(user, contract));
+
   return `Today's scorecard:
 
 ${statusLines.join('\n')}
 
-Total: ${currentScore}/${totalPossible}`;
+Total: ${currentScore}/${totalPossible}${streaks ? `\n\n${streaks}` : ''}`;
 }
 
+// The last 7 days, or a specific week when `weekStart` is given (used when
+// closing out a finished week)
 export async function getWeeklyReport(
   user: User,
-  contract: Contract
+  contract: Contract,
+  weekStart?: string
 ): Promise<string> {
-  const logs = await getRecentLogs(user.id, 7);
+  const logs = weekStart
+    ? await getLogsInRange(user.id, weekStart, addDays(weekStart, 6))
+    : (await getRecentLogs(user, 7)).reverse();
   const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
 
   if (logs.length === 0) {
@@ -90,7 +230,7 @@ export async function getWeeklyReport(
   let report = "Weekly Report:\n\n";
 
   // Daily breakdown
-  for (const log of logs.reverse()) {
+  for (const log of logs) {
     const locked = log.tomorrow_locked ? '🔒' : '○';
     report += `${log.date}: ${log.total_score}/${totalPossible} ${locked}\n`;
   }
@@ -122,67 +262,198 @@ export async function getWeeklyReport(
     report += `\n\n⚠️ Problem areas: ${problemAreas.join(', ')}`;
   }
 
+  // Actual numbers for the actions that were logged with amounts
+  const amounts = contract.binary_actions
+    .map(action => {
+      const logged = logs
+        .map(l => l.action_values?.[action.name])
+        .filter((v): v is number => v !== undefined);
+      if (logged.length === 0) return null;
+
+      const average = logged.reduce((a, b) => a + b, 0) / logged.length;
+      return `${action.name}: avg ${formatAmount(average, action)} over ${logged.length}d (${formatThreshold(action)})`;
+    })
+    .filter((line): line is string => line !== null);
+
+  if (amounts.length > 0) {
+    report += `\n\nLogged amounts:\n${amounts.join('\n')}`;
+  }
+
+  // A closed week's streaks as they stood when it ended
+  const streaks = formatStreaks(await getStreaks(user, contract, weekStart && addDays(weekStart, 6)));
+  if (streaks) {
+    report += `\n\n${streaks}`;
+  }
+
   return report;
 }
 
-export function parseScoreUpdate(
+function formatAmount(value: number, action: BinaryAction): string {
+  const rounded = Math.round(value * 10) / 10;
+  const unit = getActionRule(action)?.unit;
+  return unit ? `${rounded} ${unit}` : `${rounded}`;
+}
+
+export interface ParsedScores {
+  updates: ScoreUpdate[];
+  // Clauses that read like a report ("hit my macros") but name no action,
+  // or whose "no" was only inherited from the clause before
+  unresolved: string[];
+}
+
+const NEGATIVE = /\b(?:no|not|never|missed|miss|skip|skipped|didn['’]?t|did not|failed|forgot|none)\b|✗|❌/;
+const POSITIVE = /\b(?:did|done|hit|completed|finished|yes|checked|got|took|made|logged)\b|✓|✅/;
+// Separators after which a clause doesn't inherit the one before's "no"
+const CLAUSE_RESET = /^(?:but|then|[;\n.])$/;
+
+// Rule-based reading of "did walk and protein, no creatine, 140g protein".
+// Each clause carries its own polarity. One with none inherits a "no" only
+// across "or" ("didn't walk or lift" misses both); "but", "then" and a new
+// sentence start over ("skipped creatine but walked" logs the walk), and
+// after "and" or a comma the LLM gets a look too. Amounts decide numeric
+// actions whatever the wording. The last mention of an action wins.
+export function parseScoreUpdates(
   message: string,
   contract: Contract
-): ScoreUpdate | null {
-  const lower = message.toLowerCase();
+): ParsedScores {
+  // Split with the separators kept: [clause, separator, clause, ...]
+  const parts = message
+    .toLowerCase()
+    .split(/([,;\n&+]|\.(?=\s|$)|\b(?:and|but|or|also|plus|then)\b)/);
+
+  const updates = new Map<string, ScoreUpdate>();
+  const unresolved: string[] = [];
+  let completed = true;
+  let separator = '';
+
+  for (let i = 0; i < parts.length; i += 2) {
+    // "but" or a full stop ends what a "no" covers, even with an empty clause in between
+    if (i > 0 && !CLAUSE_RESET.test(separator)) separator = parts[i - 1];
+    const clause = parts[i].trim();
+    if (!clause) continue;
+
+    const negative = NEGATIVE.test(clause);
+    const positive = !negative && POSITIVE.test(clause);
+    if (negative) completed = false;
+    else if (positive) completed = true;
+    else if (CLAUSE_RESET.test(separator)) completed = true;
+
+    // Only a "no" carried over can be misread
+    const inherited = !completed && !negative;
+
+    const quantities = parseQuantities(clause);
+
+    // By name, or by the unit of the amount they gave ("140g" is the grams action)
+    let actions = findMentionedActions(clause, contract.binary_actions);
+    if (actions.length === 0) {
+      const byUnit = contract.binary_actions.find(a => {
+        const unit = getActionRule(a)?.unit;
+        return !!unit && quantities.some(q => q.unit === unit);
+      }) || contract.binary_actions.find(a => quantities.some(q => q.unit && UNIT_ACTION_HINTS[q.unit] === a.name));
+      actions = byUnit ? [byUnit] : [];
+    }
 
-  // Check for common patterns
-  const positivePatterns = [
-    'did', 'done', 'hit', 'completed', 'finished', '✓', 'yes', 'checked',
-  ];
-  const negativePatterns = ['missed', 'skip', 'didn\'t', 'failed', 'no'];
+    if (actions.length === 0) {
+      if (negative || positive || quantities.length > 0) unresolved.push(clause);
+      continue;
+    }
 
-  let completed = true;
-  if (negativePatterns.some(p => lower.includes(p))) {
-    completed = false;
-  }
+    for (const action of actions) {
+      const update = judgeAction(action, clause, completed, quantities, actions.length === 1);
+      updates.set(action.name, update);
 
-  // Find which action they're referring to
-  for (const action of contract.binary_actions) {
-    const actionLower = action.name.toLowerCase();
-    const actionWords = actionLower.split('_');
-
-    if (
-      lower.includes(actionLower) ||
-      lower.includes(actionLower.replace('_', ' ')) ||
-      actionWords.some(w => w.length > 3 && lower.includes(w))
-    ) {
-      return { action: action.name, completed };
+      // An amount settles it; otherwise "no creatine, walked" is the LLM's call
+      if (inherited && separator !== 'or' && update.value === undefined && !unresolved.includes(clause)) {
+        unresolved.push(clause);
+      }
+
+      // "no cigarettes" passed; the next clause shouldn't inherit the "no"
+      if (negative && update.completed) completed = true;
     }
+    separator = '';
   }
 
-  // Check for numeric values (calories, protein, steps)
-  const calorieMatch = lower.match(/(\d{3,4})\s*(?:cal|kcal|calories)/);
-  if (calorieMatch) {
-    return {
-      action: 'calories',
-      completed: true,
-      value: parseInt(calorieMatch[1], 10),
-    };
+  return { updates: Array.from(updates.values()), unresolved };
+}
+
+// Asks the LLM when the rules left something unread. The rule result stands
+// if the call fails or finds less.
+export async function parseScoreUpdatesWithLLM(
+  message: string,
+  contract: Contract,
+  ruleUpdates: ScoreUpdate[]
+): Promise<ScoreUpdate[]> {
+  try {
+    const extracted = await extractScoreUpdates(message, contract.binary_actions);
+    const updates = extracted.flatMap(e => {
+      const action = contract.binary_actions.find(a => a.name === e.action);
+      if (!action) return [];
+
+      const rule = getActionRule(action);
+      if (rule && e.value !== null) {
+        return [{ action: action.name, completed: meetsRule(rule, e.value), value: e.value }];
+      }
+      return [{ action: action.name, completed: e.completed }];
+    });
+
+    return updates.length >= ruleUpdates.length ? updates : ruleUpdates;
+  } catch (error) {
+    console.error('Score extraction failed, using rules:', error);
+    return ruleUpdates;
   }
+}
 
-  const proteinMatch = lower.match(/(\d{2,3})\s*(?:g|gram|protein)/);
-  if (proteinMatch) {
-    return {
-      action: 'protein',
-      completed: true,
-      value: parseInt(proteinMatch[1], 10),
-    };
+function judgeAction(
+  action: BinaryAction,
+  clause: string,
+  completed: boolean,
+  quantities: Quantity[],
+  onlyAction: boolean
+): ScoreUpdate {
+  const rule = getActionRule(action);
+  if (!rule) return { action: action.name, completed };
+
+  // A bare number only belongs to an action named alone in its clause
+  const quantity = pickQuantity(onlyAction ? quantities : quantities.filter(q => q.unit), rule.unit);
+  if (quantity) {
+    const value = convertQuantity(quantity, rule.unit)!;
+    return { action: action.name, completed: meetsRule(rule, value), value };
   }
 
-  const stepsMatch = lower.match(/(\d{4,5})\s*(?:steps|k)/);
-  if (stepsMatch) {
-    return {
-      action: 'walk',
-      completed: parseInt(stepsMatch[1], 10) >= 10000,
-      value: parseInt(stepsMatch[1], 10),
-    };
+  // "no cigarettes" is a pass when the cap is zero
+  if (rule.comparator === 'at_most' && rule.target === 0 && /\b(?:no|zero|none)\b/.test(clause)) {
+    return { action: action.name, completed: true, value: 0 };
   }
 
-  return null;
+  return { action: action.name, completed };
+}
+
+// Older contracts' default actions have no unit ("protein: hit target")
+const UNIT_ACTION_HINTS: Record<string, string> = {
+  kcal: 'calories',
+  g: 'protein',
+  steps: 'walk',
+};
+
+// The actions a clause names. Whole names win; otherwise the actions sharing
+// the most words with it ("logged cravings" is log_cravings, not delay_cravings).
+function findMentionedActions(clause: string, actions: BinaryAction[]): BinaryAction[] {
+  const scored = actions.map(action => {
+    const name = action.name.toLowerCase();
+    if (clause.includes(name) || clause.includes(name.replace(/_/g, ' '))) {
+      return { action, score: 100 };
+    }
+    const words = name.split('_').filter(w => w.length >= 3 && clause.includes(w));
+    return { action, score: words.length };
+  });
+
+  const best = Math.max(0, ...scored.map(s => s.score));
+  return best === 0 ? [] : scored.filter(s => s.score === best).map(s => s.action);
+}
+
+// An amount in the action's unit (or convertible to it) beats a bare number
+function pickQuantity(quantities: Quantity[], unit?: string): Quantity | null {
+  return quantities.find(q => q.unit && convertQuantity(q, unit) !== null)
+    || quantities.find(q => !q.unit)
+    || null;
 }
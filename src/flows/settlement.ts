@@ -0,0 +1,70 @@
+import {
+  User,
+  getActiveContract,
+  getRecentLogs,
+  getUserPatterns,
+  claimDailySettlement,
+} from '../db/queries';
+import { withUserLock } from '../db/client';
+import { queueMessage } from '../services/outbox';
+import { checkDailyFailures } from './lossAversion';
+import { determineShameEscalation, generateShameMessage, getBaselinePhoto } from './photoShame';
+import { isDownshiftDay } from './badDay';
+
+export interface SettlementResult {
+  date: string;
+  settled: boolean;
+  messages: string[];
+}
+
+// Closes out a finished day: token losses, then shame escalation. The day is
+// claimed (settled_at) before anything is charged, so a restart or a second
+// replica can never charge the same day twice; a crash mid-settlement errs
+// on the side of not charging.
+export async function settleDay(user: User, date: string): Promise<SettlementResult> {
+  return withUserLock(user.phone, async () => {
+    const contract = await getActiveContract(user.id);
+    if (!contract) {
+      return { date, settled: false, messages: [] };
+    }
+
+    const log = await claimDailySettlement(user.id, date);
+    if (!log) {
+      console.log(`Day ${date} already settled for ${user.phone}`);
+      return { date, settled: false, messages: [] };
+    }
+
+    // Downshift days are exempt from losses and shame by design
+    if (isDownshiftDay(log.notes)) {
+      console.log(`Settled downshift day ${date} for ${user.phone} without penalties`);
+      return { date, settled: true, messages: [] };
+    }
+
+    const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+    const messages = await checkDailyFailures(user, log, totalPossible);
+
+    for (const message of messages) {
+      await queueMessage(user, message, { flow: 'settlement' });
+    }
+
+    const [recentLogs, patterns] = await Promise.all([
+      getRecentLogs(user, 7),
+      getUserPatterns(user.id, 20),
+    ]);
+
+    const escalation = await determineShameEscalation(user, recentLogs, patterns);
+    if (escalation) {
+      const shameMessage = generateShameMessage(escalation);
+      const baseline = escalation.showBaseline ? await getBaselinePhoto(user.id) : null;
+
+      await queueMessage(user, shameMessage, {
+        flow: 'shame',
+        mediaUrl: baseline?.url,
+      });
+      messages.push(shameMessage);
+    }
+
+    console.log(`Settled ${date} for ${user.phone}: ${log.total_score}/${totalPossible}, ${messages.length} messages`);
+    return { date, settled: true, messages };
+  });
+}
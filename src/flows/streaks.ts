@@ -0,0 +1,137 @@
+import { User, Contract, DailyLog, getLogsInRange } from '../db/queries';
+import { addDays, getUserToday } from '../services/time';
+import { isDownshiftDay } from './badDay';
+
+// Consistency over time, read from daily_logs. Today can only extend a
+// streak, never break it: it isn't over yet. Downshift days are exempt from
+// losses, so they neither break a streak nor count towards one.
+
+const LOOKBACK_DAYS = 120;
+const PASS_RATIO = 0.5; // the same line settlement charges a token below
+const CALLOUT_MIN_DAYS = 3;
+
+export interface Streak {
+  current: number;
+  longest: number;
+  broken: number; // length of a streak that ended yesterday, 0 if none did
+}
+
+export interface StreakSummary {
+  overall: Streak; // days at or above the token-loss line
+  perfect: Streak;
+  locked: Streak;
+  actions: Record<string, Streak>;
+  missReason: string | null; // yesterday's, for the break callouts
+}
+
+type DayResult = 'hit' | 'miss' | 'skip';
+
+// As of today, or as of the end of a finished day ("through") for a report
+// on a closed week
+export async function getStreaks(user: User, contract: Contract, through?: string): Promise<StreakSummary> {
+  const today = through || getUserToday(user);
+  const yesterday = addDays(today, -1);
+  const logs = await getLogsInRange(user.id, addDays(today, -LOOKBACK_DAYS), today);
+  const byDate = new Map(logs.map(l => [l.date, l]));
+  const totalPossible = contract.binary_actions.reduce((a, b) => a + b.points, 0);
+
+  // From the first logged day; a day with no log at all is a miss
+  const days: string[] = [];
+  for (let date = logs[0]?.date ?? today; date <= today; date = addDays(date, 1)) {
+    days.push(date);
+  }
+
+  const streak = (hit: (log: DailyLog) => boolean): Streak =>
+    countStreak(days.map(date => {
+      const log = byDate.get(date);
+      if (!log) return 'miss';
+      if (isDownshiftDay(log.notes)) return 'skip';
+      return hit(log) ? 'hit' : 'miss';
+    }), !through);
+
+  const actions: Record<string, Streak> = {};
+  for (const action of contract.binary_actions) {
+    actions[action.name] = streak(log => (log.scores?.[action.name] ?? 0) > 0);
+  }
+
+  return {
+    overall: streak(log => log.total_score >= totalPossible * PASS_RATIO),
+    perfect: streak(log => totalPossible > 0 && log.total_score >= totalPossible),
+    locked: streak(log => log.tomorrow_locked),
+    actions,
+    missReason: byDate.get(yesterday)?.miss_reason || null,
+  };
+}
+
+// Every streak that has reached 2 days, current and best
+export function formatStreaks(summary: StreakSummary): string | null {
+  const lines = getLabelledStreaks(summary)
+    .filter(({ streak }) => streak.longest >= 2)
+    .map(({ label, streak }) => `${label}: ${streak.current}d (best ${streak.longest}d)`);
+
+  return lines.length > 0 ? `Streaks:\n${lines.join('\n')}` : null;
+}
+
+// Streaks that broke yesterday, with the reason they gave for the miss
+export function formatStreakBreaks(summary: StreakSummary): string | null {
+  const broken = getLabelledStreaks(summary)
+    .filter(({ streak }) => streak.broken >= CALLOUT_MIN_DAYS)
+    .map(({ label, streak }) => `${label}: ${streak.broken}-day streak broke yesterday.`);
+
+  if (broken.length === 0) return null;
+
+  const reason = summary.missReason
+    ? `You said it was "${summary.missReason}". Don't let that be the reason twice.`
+    : 'Day 1 of the next one is today.';
+
+  return `${broken.join('\n')}\n\n${reason}`;
+}
+
+// For the morning: the breaks if anything broke, otherwise the longest run
+// going, so there is something to protect
+export function formatMorningStreaks(summary: StreakSummary): string | null {
+  const breaks = formatStreakBreaks(summary);
+  if (breaks) return breaks;
+
+  const best = getLabelledStreaks(summary)
+    .filter(({ streak }) => streak.current >= 2)
+    .sort((a, b) => b.streak.current - a.streak.current)[0];
+
+  return best ? `${best.label}: ${best.streak.current} days running. Don't break it today.` : null;
+}
+
+function getLabelledStreaks(summary: StreakSummary): { label: string; streak: Streak }[] {
+  return [
+    { label: 'Days at 50%+', streak: summary.overall },
+    { label: 'Perfect days', streak: summary.perfect },
+    { label: 'Locked nights', streak: summary.locked },
+    ...Object.entries(summary.actions).map(([label, streak]) => ({ label, streak })),
+  ];
+}
+
+// Results oldest first, the last one today's. A finished last day counts
+// like any other.
+function countStreak(results: DayResult[], todayOpen: boolean): Streak {
+  const past = todayOpen ? results.slice(0, -1) : results;
+  const today = todayOpen ? results[results.length - 1] : 'skip';
+  let run = 0;
+  let longest = 0;
+  let broken = 0;
+
+  past.forEach((result, i) => {
+    if (result === 'hit') {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (result === 'miss') {
+      if (i === past.length - 1) broken = run;
+      run = 0;
+    }
+  });
+
+  if (today === 'hit') {
+    run++;
+    longest = Math.max(longest, run);
+  }
+
+  return { current: run, longest, broken };
+}
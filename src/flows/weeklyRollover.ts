@@ -0,0 +1,62 @@
+import { User, Contract, TokenRecord, getActiveContract, archiveWeekTokens } from '../db/queries';
+import { withUserLock } from '../db/client';
+import { queueMessage } from '../services/outbox';
+import { addDays, getUserWeekStart } from '../services/time';
+import { getWeeklyReport } from './scorecard';
+import { resetWeeklyTokens } from './lossAversion';
+import { settleDay } from './settlement';
+
+export interface RolloverResult {
+  weekStart: string;
+  rolledOver: boolean;
+}
+
+// Closes out the week that just ended in the user's timezone: makes sure
+// its last day is settled, sends the summary and the punishment verdict,
+// archives the tokens row and opens the new week. Archiving is the claim,
+// so a second run (restart, another replica) does nothing.
+export async function rollOverWeek(user: User): Promise<RolloverResult> {
+  const newWeekStart = getUserWeekStart(user);
+  const weekStart = addDays(newWeekStart, -7);
+
+  // Settlement is idempotent, so this only charges the last day if its own
+  // job hasn't run yet. Done outside our lock: settleDay takes it itself.
+  await settleDay(user, addDays(newWeekStart, -1));
+
+  return withUserLock(user.phone, async () => {
+    const tokens = await archiveWeekTokens(user.id, weekStart);
+    if (!tokens) {
+      console.log(`Week of ${weekStart} already rolled over for ${user.phone}`);
+      return { weekStart, rolledOver: false };
+    }
+
+    const fresh = await resetWeeklyTokens(user);
+
+    const contract = await getActiveContract(user.id);
+    if (contract) {
+      const report = await getWeeklyReport(user, contract, weekStart);
+      await queueMessage(user, `${report}
+
+${generateVerdictMessage(tokens, fresh, contract)}`, { flow: 'weekly_rollover' });
+    }
+
+    console.log(`Rolled over week of ${weekStart} for ${user.phone}: ${tokens.current_tokens}/${tokens.starting_tokens} tokens`);
+    return { weekStart, rolledOver: true };
+  });
+}
+
+function generateVerdictMessage(closed: TokenRecord, fresh: TokenRecord, contract: Contract): string {
+  const consequence = contract.punishment
+    ? `Your punishment is due now: ${contract.punishment}`
+    : 'The pre-agreed consequence is due now.';
+
+  const verdict = closed.punishment_triggered
+    ? `⛔ Punishment triggered. You hit 0/${closed.starting_tokens} tokens.
+
+${consequence} You set it when your head was clear. Pay it today. No renegotiation.`
+    : `💰 Tokens kept: ${closed.current_tokens}/${closed.starting_tokens}. No punishment this week.`;
+
+  return `${verdict}
+
+New week. ${fresh.current_tokens} fresh tokens. Protect them.`;
+}
@@ -1,8 +1,10 @@
 import express from 'express';
 import { config, validateConfig } from './config/env';
 import { initializeDatabase } from './db/client';
-import { initializeScheduler } from './services/scheduler';
+import { initializeScheduler, stopScheduler } from './services/scheduler';
+import { startOutboxWorker, stopOutboxWorker } from './services/outbox';
 import webhookRouter from './routes/webhook';
+import adminRouter from './routes/admin';
 
 async function main() {
   console.log('Starting WhatsApp Behavioral Companion...');
@@ -37,15 +39,22 @@ async function main() {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
-  // Twilio webhook
+  // Messaging webhook
   app.use('/', webhookRouter);
 
+  // Admin API (disabled unless ADMIN_TOKEN is set)
+  app.use('/', adminRouter);
+
   // Start server
   const server = app.listen(config.port, '0.0.0.0', () => {
     console.log(`Server running on port ${config.port}`);
     console.log(`Webhook URL: http://localhost:${config.port}/webhook`);
+    console.log(`Messaging channel: ${config.messaging.channel}`);
   });
 
+  // Deliver queued messages, including any left over from before a restart
+  startOutboxWorker();
+
   // Initialize scheduler after server is ready
   try {
     await initializeScheduler();
@@ -57,6 +66,8 @@ async function main() {
   // Graceful shutdown
   process.on('SIGTERM', () => {
     console.log('SIGTERM received, shutting down gracefully...');
+    stopOutboxWorker();
+    stopScheduler();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
@@ -65,6 +76,8 @@ async function main() {
 
   process.on('SIGINT', () => {
     console.log('SIGINT received, shutting down gracefully...');
+    stopOutboxWorker();
+    stopScheduler();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
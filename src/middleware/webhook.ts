@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { validateTwilioSignature } from '../services/twilio';
+import { claimInboundMessage } from '../db/queries';
+
+// Rebuild the public URL Twilio signed. Behind Railway/ngrok the request
+// arrives as plain http on an internal host, so prefer the forwarded headers.
+export function getPublicUrl(req: Request): string {
+  if (config.webhook.publicBaseUrl) {
+    return `${config.webhook.publicBaseUrl.replace(/\/$/, '')}${req.originalUrl}`;
+  }
+
+  const forwardedProto = req.get('x-forwarded-proto')?.split(',')[0].trim();
+  const forwardedHost = req.get('x-forwarded-host')?.split(',')[0].trim();
+  const protocol = forwardedProto || req.protocol;
+  const host = forwardedHost || req.get('host');
+
+  return `${protocol}://${host}${req.originalUrl}`;
+}
+
+export function verifySignature(req: Request, res: Response, next: NextFunction): void {
+  // Only Twilio signs its requests; the loopback channel is refused in production by validateConfig
+  if (config.messaging.channel !== 'twilio') {
+    next();
+    return;
+  }
+
+  // Explicit opt-in only (local testing with curl), never inferred from NODE_ENV
+  if (config.webhook.skipSignature) {
+    next();
+    return;
+  }
+
+  const signature = req.get('x-twilio-signature');
+
+  if (!signature) {
+    console.warn(`Rejected unsigned webhook request to ${req.originalUrl}`);
+    res.status(403).send('Missing signature');
+    return;
+  }
+
+  const url = getPublicUrl(req);
+  if (!validateTwilioSignature(signature, url, req.body || {})) {
+    console.warn(`Rejected webhook request with invalid signature for ${url}`);
+    res.status(403).send('Invalid signature');
+    return;
+  }
+
+  next();
+}
+
+// Twilio retries a webhook when it doesn't get a timely 2xx, reusing the MessageSid.
+// Claim the SID before processing so a retry can't log scores twice.
+export async function dedupeInbound(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const messageSid = req.body?.MessageSid ?? req.body?.messageSid;
+  if (!messageSid) {
+    next();
+    return;
+  }
+
+  try {
+    const claimed = await claimInboundMessage(messageSid);
+    if (!claimed) {
+      console.log(`Duplicate webhook for ${messageSid}, skipping`);
+      res.status(200).send('OK');
+      return;
+    }
+  } catch (error) {
+    console.error('Error deduplicating webhook:', error);
+    res.status(500).send('Error processing message');
+    return;
+  }
+
+  res.locals.messageSid = messageSid;
+  next();
+}
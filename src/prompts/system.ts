@@ -60,8 +60,9 @@ ACTIVE CONTRACT:
     contextStr += `
 RECENT PERFORMANCE (Last ${recentLogs.length} days):
 `;
+    const totalPossible = contract ? contract.binary_actions.reduce((a, b) => a + b.points, 0) : 10;
     for (const log of recentLogs.slice(0, 5)) {
-      contextStr += `- ${log.date}: Score ${log.total_score}/10, Tomorrow Locked: ${log.tomorrow_locked}
+      contextStr += `- ${log.date}: Score ${log.total_score}/${totalPossible}, Tomorrow Locked: ${log.tomorrow_locked}
 `;
       if (log.miss_reason) {
         contextStr += `  Miss reason: "${log.miss_reason}"
@@ -119,16 +120,27 @@ Example format:
 - 10k steps
 - Strength training`,
 
+  pack_offer: (goal: string, packName: string, actions: string, lastAction: string) => `Got it. Your goal is: ${goal}
+
+Now I need to convert this into BINARY daily actions. Things that are either done or not done. No gray areas.
+
+Starting point for ${packName.toLowerCase()}:
+${actions}
+
+Reply DEFAULTS to use these, change them ("drop ${lastAction.replace(/_/g, ' ')}", "add meditate 10 min"), or send your own list.`,
+
   times_setup: `Good. Now I need your schedule:
 
 1. Wake time? (e.g., "6:30am")
 2. Sleep time? (e.g., "10:30pm")
 3. Eating window? (e.g., "12pm-8pm")
 4. What time(s) are you most likely to fail? (Your danger zones)
+5. Your timezone or city? (e.g., "Asia/Jerusalem" or "Tel Aviv")
+6. Week starts on? (Monday unless you say otherwise)
 
-Format: Wake: X, Sleep: X, Eating: X-X, Danger: X`,
+Format: Wake: X, Sleep: X, Eating: X-X, Danger: X, Timezone: X, Week: X`,
 
-  shame_level: `Last step: Accountability intensity.
+  shame_level: `Accountability intensity.
 
 If you fail, how hard should I push?
 
@@ -138,6 +150,18 @@ Level 3: Photo comparison. Your baseline vs now.
 
 Reply with 1, 2, or 3.`,
 
+  punishment: `Last step: the punishment.
+
+If you lose all your tokens in a week, what do you pay? Make it concrete, and something you'd hate to do.
+
+Examples:
+- "Donate $100 to a cause I oppose"
+- "No phone for a full Saturday"
+- "Cold shower every morning next week"
+
+Want a witness? Add a referee's WhatsApp number with country code:
+"Referee: +15551234567". They only hear from me if you hit zero.`,
+
   contract_review: (contract: string) => `Here's your behavioral contract:
 
 ${contract}
@@ -180,16 +204,6 @@ Did you hit your targets? List what you completed.`,
 
 One sentence: What happened?`,
 
-  nightly_lock_plan: `Now lock tomorrow:
-
-1. Eating window?
-2. First meal time and what?
-3. Walk: when?
-4. Strength: yes/no?
-5. One danger moment you anticipate?
-
-Be specific. "Morning" is not a time.`,
-
   nightly_lock_confirm: (plan: any) => `Tomorrow's plan:
 ${JSON.stringify(plan, null, 2)}
 
@@ -0,0 +1,57 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { findUserByPhone, getFailedOutboxMessages, requeueOutboxMessage } from '../db/queries';
+import { drainOutbox } from '../services/outbox';
+
+const router = Router();
+
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!config.admin.token) {
+    res.status(404).send('Not found');
+    return;
+  }
+
+  if (req.get('authorization') !== `Bearer ${config.admin.token}`) {
+    res.status(401).send('Unauthorized');
+    return;
+  }
+
+  next();
+}
+
+router.use('/admin', requireAdmin);
+
+// Failed and retrying sends for a user, e.g. /admin/users/whatsapp:+15551234567/failed-messages
+router.get('/admin/users/:phone/failed-messages', async (req: Request, res: Response) => {
+  try {
+    const user = await findUserByPhone(req.params.phone as string);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const messages = await getFailedOutboxMessages(user.id);
+    res.json({ user: user.phone, messages });
+  } catch (error) {
+    console.error('Error loading failed messages:', error);
+    res.status(500).json({ error: 'Error loading failed messages' });
+  }
+});
+
+router.post('/admin/outbox/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const message = await requeueOutboxMessage(req.params.id as string);
+    if (!message) {
+      res.status(404).json({ error: 'No dead message with that id' });
+      return;
+    }
+
+    void drainOutbox();
+    res.json({ message });
+  } catch (error) {
+    console.error('Error requeueing message:', error);
+    res.status(500).json({ error: 'Error requeueing message' });
+  }
+});
+
+export default router;
@@ -1,69 +1,169 @@
 import { Router, Request, Response } from 'express';
-import { parseIncomingMessage, sendMessage } from '../services/twilio';
+import { parseIncomingMessage, getChannel, getReplyText, IncomingMessage, Reply } from '../services/messaging';
+import { recordDeliveryStatus } from '../services/delivery';
+import { isAudio, transcribeMedia } from '../services/transcription';
+import { queueMessage } from '../services/outbox';
 import { generateResponse, classifyIntent, ConversationContext } from '../services/llm';
 import {
   getOrCreateUser,
   getActiveContract,
   getRecentLogs,
   getUserPatterns,
+  releaseInboundMessage,
+  touchLastInbound,
+  findUserById,
   User,
   Contract,
 } from '../db/queries';
-import { handleOnboarding, isOnboarding } from '../flows/onboarding';
-import { handleNightlyLock, isInNightlyLock, resetNightlyLock } from '../flows/nightlyLock';
-import { updateScore, getCurrentScore, parseScoreUpdate, getWeeklyReport } from '../flows/scorecard';
-import { handleBadDay, detectBadDayRequest } from '../flows/badDay';
+import { handleOnboarding, handleOnboardingPayload, isOnboarding } from '../flows/onboarding';
+import { handleNightlyLock, handleNightlyLockPayload, isInNightlyLock, resetNightlyLock } from '../flows/nightlyLock';
+import {
+  updateScores,
+  getCurrentScore,
+  parseScoreUpdates,
+  parseScoreUpdatesWithLLM,
+  getWeeklyReport,
+} from '../flows/scorecard';
+import { handleBadDay, handleBadDayPayload, detectBadDayRequest } from '../flows/badDay';
 import { handlePhotoMessage } from '../flows/photoShame';
 import { getTokenStatus, generateTokenStatusMessage } from '../flows/lossAversion';
+import {
+  isContractExpired,
+  isInReview,
+  startReview,
+  handleContractReview,
+  handleContractReviewPayload,
+  detectContractChangeRequest,
+  generateMidWeekRejection,
+} from '../flows/contractReview';
+import { isRiskProposalReply, handleRiskProposalReply, handleRiskProposalPayload } from '../flows/riskLearning';
+import { isScoreCorrection, handleScoreCorrection, isRefereeDecision, handleRefereeDecision } from '../flows/scoreCorrections';
+import { isReminderRequest, isReminderCommand, handleReminderRequest, handleReminderCommand } from '../flows/reminders';
 import { buildMemoryContext, recordConversation, detectRationalization, generateRationalizationResponse } from '../services/memory';
 import { scheduleUserJobs } from '../services/scheduler';
+import { verifySignature, dedupeInbound } from '../middleware/webhook';
+import { withUserLock } from '../db/client';
 
 const router = Router();
 
-router.post('/webhook', async (req: Request, res: Response) => {
+router.post('/webhook', verifySignature, dedupeInbound, async (req: Request, res: Response) => {
   try {
     const incoming = parseIncomingMessage(req.body);
     console.log(`Received message from ${incoming.from}: ${incoming.body}`);
 
-    // Get or create user
-    const user = await getOrCreateUser(incoming.from);
-
-    // Handle the message
-    const response = await handleMessage(user, incoming.body, incoming.mediaUrl);
+    // A referee's APPROVE/DENY runs under the lock of the user it is about,
+    // never inside the referee's own, so two users refereeing each other
+    // can't deadlock. The referee needn't be a user at all.
+    const refereeDecision = isRefereeDecision(incoming.body)
+      && await handleRefereeDecision(incoming.from, incoming.body);
 
-    // Send response
-    if (response) {
-      await sendMessage(user.phone, response);
-
-      // Record the conversation
-      await recordConversation(user, 'user', incoming.body, getCurrentFlow(user));
-      await recordConversation(user, 'assistant', response, getCurrentFlow(user));
+    // One message per user at a time, in arrival order, so rapid-fire
+    // messages can't race on flow state, daily logs or tokens
+    if (!refereeDecision) {
+      await withUserLock(incoming.from, () => processIncoming(incoming));
     }
 
     // Respond to Twilio
     res.status(200).send('OK');
   } catch (error) {
     console.error('Webhook error:', error);
+
+    // Let Twilio's retry be processed rather than dropped as a duplicate
+    if (res.locals.messageSid) {
+      await releaseInboundMessage(res.locals.messageSid).catch(() => {});
+    }
+
     res.status(500).send('Error processing message');
   }
 });
 
+async function processIncoming(incoming: IncomingMessage): Promise<void> {
+  // Get or create user
+  const user = await getOrCreateUser(incoming.from);
+
+  // Opens (or extends) the 24h window for freeform replies
+  await touchLastInbound(user.id);
+
+  const media = incoming.mediaUrl
+    ? { url: incoming.mediaUrl, contentType: incoming.mediaContentType }
+    : undefined;
+
+  // Voice notes are transcribed and then handled exactly like typed text
+  let response: Reply;
+  if (incoming.mediaUrl && isAudio(incoming.mediaContentType)) {
+    response = await handleVoiceNote(user, incoming);
+  } else {
+    response = await handleMessage(user, incoming);
+  }
+
+  // Record the conversation and queue the response (which records the reply)
+  if (response) {
+    const flow = getCurrentFlow(user);
+    await recordConversation(user, 'user', incoming.body, flow, media);
+    await queueMessage(user, response, { flow });
+  }
+}
+
+// Delivery status callbacks (sent/delivered/read/failed) for outbound messages
+router.post('/webhook/status', verifySignature, async (req: Request, res: Response) => {
+  try {
+    const status = getChannel().parseStatus(req.body);
+    if (!status) {
+      res.status(400).send('Missing status fields');
+      return;
+    }
+
+    const matched = await recordDeliveryStatus(status);
+    if (!matched) {
+      console.log(`Status ${status.status} for unknown message ${status.messageSid}`);
+    }
+
+    res.status(200).send('OK');
+  } catch (error) {
+    console.error('Status callback error:', error);
+    res.status(500).send('Error processing status');
+  }
+});
+
+// Replaces the (empty) body with the transcript, so it is also what gets recorded
+async function handleVoiceNote(user: User, incoming: IncomingMessage): Promise<Reply> {
+  try {
+    incoming.body = await transcribeMedia(incoming.mediaUrl!, incoming.mediaContentType!);
+  } catch (error) {
+    console.error(`Error transcribing voice note from ${user.phone}:`, error);
+    return "I couldn't make out that voice note. Type it out instead.";
+  }
+
+  if (!incoming.body) {
+    return "That voice note came through empty. Try again or type it out.";
+  }
+
+  return await handleMessage(user, { ...incoming, mediaUrl: undefined, mediaContentType: undefined });
+}
+
 async function handleMessage(
   user: User,
-  message: string,
-  mediaUrl?: string
-): Promise<string> {
-  // Handle photo uploads
-  if (mediaUrl) {
-    return await handlePhotoMessage(user, mediaUrl);
+  incoming: IncomingMessage
+): Promise<Reply> {
+  const message = incoming.body;
+
+  // Handle photo uploads (older payloads may omit the content type)
+  if (incoming.mediaUrl) {
+    const contentType = incoming.mediaContentType?.toLowerCase();
+    if (contentType && !contentType.startsWith('image/')) {
+      return "I can only take photos and voice notes. Send text for anything else.";
+    }
+    return await handlePhotoMessage(user, incoming.mediaUrl);
   }
 
   // Handle onboarding
   if (isOnboarding(user)) {
-    const response = await handleOnboarding(user, message);
+    const response = incoming.payload
+      ? await handleOnboardingPayload(user, incoming.payload)
+      : await handleOnboarding(user, message);
 
     // If onboarding just completed, schedule jobs
-    if (response.includes('Contract locked')) {
+    if (getReplyText(response).includes('Contract locked')) {
       await scheduleUserJobs(user);
     }
 
@@ -75,9 +175,20 @@ async function handleMessage(
     return "You don't have an active contract. Send 'start' to begin onboarding.";
   }
 
+  // Catch an expired contract here too, in case its review job didn't run
+  if (isContractExpired(contract) && !contract.review_started_at) {
+    const review = await startReview(user, contract);
+    if (review) return review;
+  }
+
   // Build context for all handlers
   const context = await buildContext(user, contract);
 
+  // Button taps carry a payload and skip the text heuristics entirely
+  if (incoming.payload) {
+    return await handlePayload(user, contract, incoming, context);
+  }
+
   // Handle nightly lock flow
   if (isInNightlyLock(user.id)) {
     return await handleNightlyLock(user, contract, message, context);
@@ -86,6 +197,42 @@ async function handleMessage(
   // Check for specific commands/intents
   const lower = message.toLowerCase().trim();
 
+  // Ad-hoc reminders ("remind me at 3pm to walk"), before score parsing
+  // picks up the action name
+  if (isReminderCommand(message)) {
+    return await handleReminderCommand(user, message);
+  }
+
+  if (isReminderRequest(message)) {
+    return await handleReminderRequest(user, message);
+  }
+
+  // Answer to a proposed risk intercept
+  if (isRiskProposalReply(message)) {
+    const response = await handleRiskProposalReply(user, message);
+    await rescheduleUser(user.id);
+    return response;
+  }
+
+  // Backdated logs and corrections ("yesterday I did strength", "undo last")
+  if (isScoreCorrection(message)) {
+    const response = await handleScoreCorrection(user, contract, message);
+    if (response) return response;
+  }
+
+  // Contract edits: only inside the review window, refused mid-week
+  if (isInReview(contract) && (lower === 'keep' || lower === 'locked' || detectContractChangeRequest(message))) {
+    const response = await handleContractReview(user, contract, message);
+    if (getReplyText(response).startsWith('New contract locked')) {
+      await scheduleUserJobs(user);
+    }
+    return response;
+  }
+
+  if (detectContractChangeRequest(message)) {
+    return generateMidWeekRejection(user, contract);
+  }
+
   // Start nightly lock
   if (lower === 'lock' || lower === 'nightly' || lower.includes('lock tomorrow')) {
     return await handleNightlyLock(user, contract, message, context);
@@ -124,10 +271,13 @@ async function handleMessage(
     return generateRationalizationResponse(message, memory);
   }
 
-  // Try to parse as score update
-  const scoreUpdate = parseScoreUpdate(message, contract);
-  if (scoreUpdate) {
-    const result = await updateScore(user, contract, scoreUpdate);
+  // Try to parse as score updates; the LLM reads whatever the rules couldn't
+  const parsed = parseScoreUpdates(message, contract);
+  if (parsed.updates.length > 0) {
+    const updates = parsed.unresolved.length > 0
+      ? await parseScoreUpdatesWithLLM(message, contract, parsed.updates)
+      : parsed.updates;
+    const result = await updateScores(user, contract, updates);
     return result.message;
   }
 
@@ -135,8 +285,13 @@ async function handleMessage(
   const intent = await classifyIntent(message);
 
   switch (intent) {
-    case 'LOG_SCORE':
+    case 'LOG_SCORE': {
+      const updates = await parseScoreUpdatesWithLLM(message, contract, []);
+      if (updates.length > 0) {
+        return (await updateScores(user, contract, updates)).message;
+      }
       return "I couldn't parse that as a score. Which action did you complete? (e.g., 'did calories', '150g protein', '12k steps')";
+    }
 
     case 'BAD_DAY':
       return await handleBadDay(user, contract, message);
@@ -150,15 +305,72 @@ async function handleMessage(
     case 'SKIP':
       return "There's no skip button. There's only 'do it' or 'don't do it and own the consequence.'";
 
+    case 'REMIND':
+      return await handleReminderRequest(user, message);
+
+    case 'CHANGE_CONTRACT':
+      return isInReview(contract)
+        ? await handleContractReviewPayload(user, contract, 'review:edit')
+        : generateMidWeekRejection(user, contract);
+
     default:
       // General conversation - use LLM
       return await generateResponse(message, context);
   }
 }
 
+async function handlePayload(
+  user: User,
+  contract: Contract,
+  incoming: IncomingMessage,
+  context: ConversationContext
+): Promise<Reply> {
+  const payload = incoming.payload!;
+  const kind = payload.split(':')[0];
+
+  switch (kind) {
+    case 'score':
+    case 'lock':
+      return await handleNightlyLockPayload(user, contract, payload, context);
+
+    case 'badday':
+      return await handleBadDayPayload(user, payload);
+
+    case 'risk': {
+      const response = await handleRiskProposalPayload(user, payload);
+      await rescheduleUser(user.id);
+      return response;
+    }
+
+    case 'review': {
+      if (!isInReview(contract)) {
+        return generateMidWeekRejection(user, contract);
+      }
+      const response = await handleContractReviewPayload(user, contract, payload);
+      if (getReplyText(response).startsWith('New contract locked')) {
+        await scheduleUserJobs(user);
+      }
+      return response;
+    }
+
+    default:
+      // Fall back to the button's text as if it had been typed
+      console.warn(`Unknown button payload from ${user.phone}: ${payload}`);
+      return await handleMessage(user, { ...incoming, payload: undefined });
+  }
+}
+
+// Re-syncs scheduled jobs from the stored profile after a change to it
+async function rescheduleUser(userId: string): Promise<void> {
+  const fresh = await findUserById(userId);
+  if (fresh) {
+    await scheduleUserJobs(fresh);
+  }
+}
+
 async function buildContext(user: User, contract: Contract): Promise<ConversationContext> {
   const [recentLogs, patterns, memory] = await Promise.all([
-    getRecentLogs(user.id, 7),
+    getRecentLogs(user, 7),
     getUserPatterns(user.id, 10),
     buildMemoryContext(user),
   ]);
@@ -0,0 +1,71 @@
+import {
+  Message,
+  findMessageByProviderSid,
+  updateMessageDeliveryStatus,
+  getLatestFlowMessage,
+} from '../db/queries';
+import { DeliveryStatus } from './messaging';
+
+export type DeliveryState = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+// Provider statuses mapped onto a progression. Callbacks can arrive out of
+// order (e.g. "sent" after "delivered"), so a status never moves backwards.
+const STATUS_RANK: Record<string, number> = {
+  accepted: 0,
+  scheduled: 0,
+  queued: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+  undelivered: 5,
+  failed: 5,
+  canceled: 5,
+};
+
+export async function recordDeliveryStatus(status: DeliveryStatus): Promise<boolean> {
+  const message = await findMessageByProviderSid(status.messageSid);
+  if (!message) {
+    return false;
+  }
+
+  const current = STATUS_RANK[message.delivery_status || ''] ?? -1;
+  const incoming = STATUS_RANK[status.status] ?? -1;
+
+  if (incoming >= current) {
+    await updateMessageDeliveryStatus(message.id, status.status, status.errorCode || null);
+  }
+
+  return true;
+}
+
+export function getDeliveryState(message: Message): DeliveryState {
+  switch (message.delivery_status) {
+    case 'read':
+      return 'read';
+    case 'delivered':
+      return 'delivered';
+    case 'sent':
+      return 'sent';
+    case 'failed':
+    case 'undelivered':
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+// Delivery state of the latest message we sent in a flow, e.g. whether
+// tonight's "lock" reminder was read and ignored or never arrived
+export async function getFlowDeliveryState(
+  userId: string,
+  flow: string
+): Promise<{ message: Message; state: DeliveryState } | null> {
+  const message = await getLatestFlowMessage(userId, flow);
+  if (!message) {
+    return null;
+  }
+
+  return { message, state: getDeliveryState(message) };
+}
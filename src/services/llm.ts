@@ -96,6 +96,8 @@ export async function classifyIntent(message: string): Promise<string> {
 - CHECK_STATUS: User wants to know their status/score
 - GENERAL: General conversation
 - SKIP: User wants to skip/postpone something
+- CHANGE_CONTRACT: User wants to change their goal, actions or targets
+- REMIND: User wants to be reminded or pinged about something later
 - PHOTO: User is sending or referencing a photo
 
 Respond with ONLY the intent label.`,
@@ -108,3 +110,141 @@ Respond with ONLY the intent label.`,
 
   return response.choices[0]?.message?.content?.trim() || 'GENERAL';
 }
+
+export interface ExtractedAction {
+  name: string;
+  comparator: 'at_most' | 'at_least' | 'done';
+  target: number | null;
+  unit: string | null;
+  weight: number; // 1-3, how much the action matters for the goal
+  vague: boolean;
+  followUp: string | null;
+}
+
+// Structured output: the schema is enforced by the API, so the result
+// parses or the call throws. Callers fall back to the regex parser.
+export async function extractBinaryActions(goal: string, text: string): Promise<ExtractedAction[]> {
+  const response = await openai.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `Turn the user's list into daily binary actions for a behavior contract.
+
+Goal: ${goal}
+
+One entry per action the user listed, in their order. Do not invent actions.
+- name: short snake_case, e.g. "calories", "walk", "strength_training"
+- comparator: "at_most" (stay under target), "at_least" (reach target) or "done" (yes/no)
+- target/unit: the number and unit, e.g. 2000 "kcal", 10000 "steps"; null for "done"
+- weight: 1-3, how much it moves the goal
+- vague: true if it can't be judged yes/no at the end of the day ("eat better", "sleep more")
+- followUp: for vague actions, one short question that would make it concrete; otherwise null`,
+      },
+      { role: 'user', content: text },
+    ],
+    max_tokens: 800,
+    temperature: 0,
+    response_format: {
+      type: 'json_schema',
+      json_schema: {
+        name: 'binary_actions',
+        strict: true,
+        schema: {
+          type: 'object',
+          properties: {
+            actions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  comparator: { type: 'string', enum: ['at_most', 'at_least', 'done'] },
+                  target: { type: ['number', 'null'] },
+                  unit: { type: ['string', 'null'] },
+                  weight: { type: 'integer' },
+                  vague: { type: 'boolean' },
+                  followUp: { type: ['string', 'null'] },
+                },
+                required: ['name', 'comparator', 'target', 'unit', 'weight', 'vague', 'followUp'],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ['actions'],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) throw new Error('Empty action extraction response');
+
+  return (JSON.parse(content) as { actions: ExtractedAction[] }).actions;
+}
+
+export interface ExtractedScore {
+  action: string;
+  completed: boolean;
+  value: number | null; // in the action's unit
+}
+
+// Fallback for score messages the rules can't read. Action names are an
+// enum, so the model can only answer with actions from the contract.
+export async function extractScoreUpdates(
+  message: string,
+  actions: { name: string; threshold?: string }[]
+): Promise<ExtractedScore[]> {
+  const response = await openai.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `The user is reporting on their daily actions. Return one entry per action they mention.
+
+Actions:
+${actions.map(a => `- ${a.name}${a.threshold ? `: ${a.threshold}` : ''}`).join('\n')}
+
+- completed: true if they say they did it, false if they say they missed or skipped it
+- value: the amount they logged in the action's unit (e.g. 140 for "140g protein"), or null
+Leave out actions they don't mention.`,
+      },
+      { role: 'user', content: message },
+    ],
+    max_tokens: 400,
+    temperature: 0,
+    response_format: {
+      type: 'json_schema',
+      json_schema: {
+        name: 'score_updates',
+        strict: true,
+        schema: {
+          type: 'object',
+          properties: {
+            updates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string', enum: actions.map(a => a.name) },
+                  completed: { type: 'boolean' },
+                  value: { type: ['number', 'null'] },
+                },
+                required: ['action', 'completed', 'value'],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ['updates'],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) throw new Error('Empty score extraction response');
+
+  return (JSON.parse(content) as { updates: ExtractedScore[] }).updates;
+}
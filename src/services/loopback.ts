@@ -0,0 +1,150 @@
+import { appendFileSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
+import { config } from '../config/env';
+import {
+  MessagingChannel,
+  IncomingMessage,
+  DeliveryStatus,
+  SendResult,
+  InteractiveContent,
+} from './messaging';
+
+// Local stand-in for Twilio. Outbound messages are appended to a JSONL file
+// (and kept in memory) so flows can be exercised without a provider account.
+
+export interface LoopbackMessage {
+  sid: string;
+  to: string;
+  body: string;
+  mediaUrl?: string;
+  template?: { contentSid: string; variables: Record<string, string> };
+  interactive?: InteractiveContent;
+  sentAt: string;
+}
+
+const sentMessages: LoopbackMessage[] = [];
+
+function record(message: LoopbackMessage): SendResult {
+  sentMessages.push(message);
+
+  const outboxPath = config.messaging.loopbackOutboxPath;
+  if (outboxPath) {
+    mkdirSync(dirname(outboxPath), { recursive: true });
+    appendFileSync(outboxPath, JSON.stringify(message) + '\n');
+  }
+
+  return { sid: message.sid, status: 'delivered' };
+}
+
+async function sendText(to: string, body: string): Promise<SendResult> {
+  return record({
+    sid: `LB${randomUUID().replace(/-/g, '')}`,
+    to,
+    body,
+    sentAt: new Date().toISOString(),
+  });
+}
+
+async function sendMedia(to: string, body: string, mediaUrl: string): Promise<SendResult> {
+  return record({
+    sid: `LB${randomUUID().replace(/-/g, '')}`,
+    to,
+    body,
+    mediaUrl,
+    sentAt: new Date().toISOString(),
+  });
+}
+
+async function sendTemplate(
+  to: string,
+  contentSid: string,
+  variables: Record<string, string>
+): Promise<SendResult> {
+  return record({
+    sid: `LB${randomUUID().replace(/-/g, '')}`,
+    to,
+    body: `[template ${contentSid}]`,
+    template: { contentSid, variables },
+    sentAt: new Date().toISOString(),
+  });
+}
+
+async function sendInteractive(to: string, content: InteractiveContent): Promise<SendResult> {
+  return record({
+    sid: `LB${randomUUID().replace(/-/g, '')}`,
+    to,
+    body: content.body,
+    interactive: content,
+    sentAt: new Date().toISOString(),
+  });
+}
+
+// Local media can be referenced by path, file:// or data: URL
+async function fetchMedia(url: string): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    const [meta, data] = url.split(',', 2);
+    return meta.endsWith(';base64')
+      ? Buffer.from(data, 'base64')
+      : Buffer.from(decodeURIComponent(data));
+  }
+
+  if (url.startsWith('http://') || url.startsWith('https://')) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch media (${response.status}): ${url}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  return readFileSync(url.startsWith('file://') ? fileURLToPath(url) : url);
+}
+
+// Accepts a plain JSON payload, falling back to Twilio field names so
+// captured Twilio webhooks can be replayed against the loopback channel
+function parseIncoming(body: any): IncomingMessage {
+  return {
+    from: body.from ?? body.From,
+    body: body.body ?? body.Body ?? '',
+    mediaUrl: body.mediaUrl ?? body.MediaUrl0,
+    mediaContentType: body.mediaContentType ?? body.MediaContentType0,
+    messageSid: body.messageSid ?? body.MessageSid,
+    payload: body.payload ?? body.ButtonPayload ?? body.ListId,
+  };
+}
+
+function parseStatus(body: any): DeliveryStatus | null {
+  const messageSid = body.messageSid ?? body.MessageSid;
+  const status = body.status ?? body.MessageStatus;
+  if (!messageSid || !status) {
+    return null;
+  }
+
+  return {
+    messageSid,
+    status,
+    to: body.to ?? body.To,
+    errorCode: body.errorCode ?? body.ErrorCode,
+  };
+}
+
+export const loopbackChannel: MessagingChannel = {
+  name: 'loopback',
+  supportsInteractive: true,
+  parseIncoming,
+  sendText,
+  sendMedia,
+  sendTemplate,
+  sendInteractive,
+  fetchMedia,
+  parseStatus,
+};
+
+export function getLoopbackMessages(to?: string): LoopbackMessage[] {
+  return to ? sentMessages.filter(m => m.to === to) : [...sentMessages];
+}
+
+export function clearLoopbackMessages(): void {
+  sentMessages.length = 0;
+}
@@ -111,9 +111,10 @@ export async function recordConversation(
   user: User,
   role: 'user' | 'assistant',
   content: string,
-  flow: string
+  flow: string,
+  media?: { url: string; contentType?: string }
 ): Promise<void> {
-  await saveMessage(user.id, role, content, flow);
+  await saveMessage(user.id, role, content, flow, media);
 }
 
 export function getUserPastWords(memory: MemoryContext): string[] {
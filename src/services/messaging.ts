@@ -0,0 +1,138 @@
+import { config } from '../config/env';
+import { twilioChannel } from './twilio';
+import { loopbackChannel } from './loopback';
+
+export interface IncomingMessage {
+  from: string;
+  body: string;
+  mediaUrl?: string;
+  mediaContentType?: string;
+  messageSid?: string;
+  // Id of the tapped quick-reply button or list item, if any
+  payload?: string;
+}
+
+export interface SendResult {
+  sid: string;
+  status: string;
+}
+
+export interface DeliveryStatus {
+  messageSid: string;
+  status: string;
+  to?: string;
+  errorCode?: string;
+}
+
+export interface ReplyOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+// A message with tappable options. The body must still read as a complete
+// text prompt, since it is sent on its own when the channel can't do buttons.
+export interface InteractiveContent {
+  body: string;
+  buttons?: ReplyOption[];
+  list?: { button: string; items: ReplyOption[] };
+}
+
+export type Reply = string | InteractiveContent;
+
+export interface MessagingChannel {
+  name: string;
+  supportsInteractive: boolean;
+  parseIncoming(body: any): IncomingMessage;
+  sendText(to: string, body: string): Promise<SendResult>;
+  sendMedia(to: string, body: string, mediaUrl: string): Promise<SendResult>;
+  sendTemplate(to: string, contentSid: string, variables: Record<string, string>): Promise<SendResult>;
+  sendInteractive(to: string, content: InteractiveContent): Promise<SendResult>;
+  fetchMedia(url: string): Promise<Buffer>;
+  parseStatus(body: any): DeliveryStatus | null;
+}
+
+const channels: Record<string, MessagingChannel> = {
+  twilio: twilioChannel,
+  loopback: loopbackChannel,
+};
+
+export function getChannel(): MessagingChannel {
+  const channel = channels[config.messaging.channel];
+  if (!channel) {
+    throw new Error(`Unknown messaging channel: ${config.messaging.channel}`);
+  }
+  return channel;
+}
+
+export async function sendMessage(to: string, body: string): Promise<SendResult> {
+  try {
+    const result = await getChannel().sendText(to, body);
+    console.log(`Message sent to ${to}: ${body.substring(0, 50)}...`);
+    return result;
+  } catch (error) {
+    console.error('Error sending message:', error);
+    throw error;
+  }
+}
+
+export async function sendMediaMessage(
+  to: string,
+  body: string,
+  mediaUrl: string
+): Promise<SendResult> {
+  try {
+    const result = await getChannel().sendMedia(to, body, mediaUrl);
+    console.log(`Media message sent to ${to}`);
+    return result;
+  } catch (error) {
+    console.error('Error sending media message:', error);
+    throw error;
+  }
+}
+
+export async function sendTemplateMessage(
+  to: string,
+  contentSid: string,
+  variables: Record<string, string>
+): Promise<SendResult> {
+  try {
+    const result = await getChannel().sendTemplate(to, contentSid, variables);
+    console.log(`Template ${contentSid} sent to ${to}`);
+    return result;
+  } catch (error) {
+    console.error('Error sending template message:', error);
+    throw error;
+  }
+}
+
+export async function sendInteractiveMessage(
+  to: string,
+  content: InteractiveContent
+): Promise<SendResult> {
+  const channel = getChannel();
+  if (!channel.supportsInteractive) {
+    return sendMessage(to, content.body);
+  }
+
+  try {
+    const result = await channel.sendInteractive(to, content);
+    console.log(`Interactive message sent to ${to}: ${content.body.substring(0, 50)}...`);
+    return result;
+  } catch (error) {
+    console.error('Error sending interactive message:', error);
+    throw error;
+  }
+}
+
+export function supportsInteractive(): boolean {
+  return getChannel().supportsInteractive;
+}
+
+export function getReplyText(reply: Reply): string {
+  return typeof reply === 'string' ? reply : reply.body;
+}
+
+export function parseIncomingMessage(body: any): IncomingMessage {
+  return getChannel().parseIncoming(body);
+}
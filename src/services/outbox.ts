@@ -0,0 +1,186 @@
+import { config } from '../config/env';
+import {
+  User,
+  OutboxMessage,
+  enqueueOutboxMessage,
+  claimDueOutboxMessages,
+  markOutboxSent,
+  markOutboxFailed,
+  saveMessage,
+  findUserById,
+} from '../db/queries';
+import {
+  sendMessage,
+  sendMediaMessage,
+  sendTemplateMessage,
+  sendInteractiveMessage,
+  getReplyText,
+  Reply,
+  SendResult,
+} from './messaging';
+import { TemplateRef, getTemplateContentSid, isSessionWindowOpen } from './templates';
+
+const CLAIM_BATCH_SIZE = 20;
+const CLAIM_LEASE_SECONDS = 120;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let draining = false;
+let drainRequested = false;
+
+export interface QueueOptions {
+  flow?: string;
+  mediaUrl?: string;
+  // Sent instead of the body if the user's session window has closed by delivery time
+  template?: TemplateRef;
+}
+
+// Every outbound message goes through here. The row is written first so a
+// provider outage only delays delivery; the worker retries with backoff.
+// The message is also recorded in the conversation history so delivery
+// status callbacks can be linked back to it.
+export async function queueMessage(
+  user: User,
+  reply: Reply,
+  options: QueueOptions = {}
+): Promise<OutboxMessage> {
+  const flow = options.flow || 'general';
+  const body = getReplyText(reply);
+  const record = await saveMessage(user.id, 'assistant', body, flow);
+
+  const message = await enqueueOutboxMessage({
+    userId: user.id,
+    to: user.phone,
+    body,
+    flow,
+    mediaUrl: options.mediaUrl,
+    messageId: record.id,
+    template: options.template,
+    interactive: typeof reply === 'string' ? null : reply,
+  });
+
+  // Deliver right away instead of waiting for the next poll
+  void drainOutbox();
+
+  return message;
+}
+
+// For someone other than the user (their referee). Linked to the user for
+// delivery tracking, but kept out of their conversation history.
+export async function queueMessageTo(
+  user: User,
+  to: string,
+  reply: Reply,
+  options: QueueOptions = {}
+): Promise<OutboxMessage> {
+  const message = await enqueueOutboxMessage({
+    userId: user.id,
+    to,
+    body: getReplyText(reply),
+    flow: options.flow || 'general',
+    mediaUrl: options.mediaUrl,
+    template: options.template,
+    interactive: typeof reply === 'string' ? null : reply,
+  });
+
+  void drainOutbox();
+
+  return message;
+}
+
+export async function drainOutbox(): Promise<void> {
+  if (draining) {
+    // Picked up by the running drain once its current batch finishes
+    drainRequested = true;
+    return;
+  }
+  draining = true;
+
+  try {
+    let batch: OutboxMessage[];
+    do {
+      drainRequested = false;
+      batch = await claimDueOutboxMessages(CLAIM_BATCH_SIZE, CLAIM_LEASE_SECONDS);
+      for (const message of batch) {
+        await deliver(message);
+      }
+    } while (batch.length === CLAIM_BATCH_SIZE || drainRequested);
+  } catch (error) {
+    console.error('Error draining outbox:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function deliver(message: OutboxMessage): Promise<void> {
+  try {
+    const result = await send(message);
+    await markOutboxSent(message, result.sid, result.status);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const retryIn = isPermanentFailure(error) || message.attempts >= config.outbox.maxAttempts
+      ? null
+      : getBackoffSeconds(message.attempts);
+
+    await markOutboxFailed(message.id, reason, retryIn);
+
+    if (retryIn === null) {
+      console.error(`Outbox message ${message.id} to ${message.to_address} dead after ${message.attempts} attempts: ${reason}`);
+    } else {
+      console.warn(`Outbox message ${message.id} failed (attempt ${message.attempts}), retrying in ${retryIn}s`);
+    }
+  }
+}
+
+async function send(message: OutboxMessage): Promise<SendResult> {
+  // The window is checked at delivery time since a retried message may have aged out of it
+  if (message.template_key && message.user_id) {
+    const user = await findUserById(message.user_id);
+    // Anyone but the user never messaged us, so has no open window
+    if (user && (message.to_address !== user.phone || !isSessionWindowOpen(user))) {
+      const contentSid = getTemplateContentSid(message.template_key);
+      if (contentSid) {
+        return sendTemplateMessage(message.to_address, contentSid, message.template_variables || {});
+      }
+      console.warn(`No content SID configured for template ${message.template_key}, sending freeform`);
+    }
+  }
+
+  if (message.media_url) {
+    return sendMediaMessage(message.to_address, message.body, message.media_url);
+  }
+
+  if (message.interactive) {
+    return sendInteractiveMessage(message.to_address, message.interactive);
+  }
+
+  return sendMessage(message.to_address, message.body);
+}
+
+function getBackoffSeconds(attempts: number): number {
+  const seconds = config.outbox.baseBackoffSeconds * Math.pow(2, attempts - 1);
+  return Math.min(seconds, config.outbox.maxBackoffSeconds);
+}
+
+// 4xx responses (bad number, unsubscribed user) won't succeed on retry; 429 will
+function isPermanentFailure(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 429;
+}
+
+export function startOutboxWorker(): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(() => {
+    void drainOutbox();
+  }, config.outbox.pollIntervalMs);
+
+  console.log(`Outbox worker started (polling every ${config.outbox.pollIntervalMs}ms)`);
+  void drainOutbox();
+}
+
+export function stopOutboxWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
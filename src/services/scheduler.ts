@@ -1,25 +1,105 @@
-import * as cron from 'node-cron';
-import { query } from '../db/client';
-import { User, Contract, getActiveContract, getRecentLogs, getUserPatterns } from '../db/queries';
-import { sendMessage } from './twilio';
+import { PoolClient } from 'pg';
+import { config } from '../config/env';
+import { query, withTransaction } from '../db/client';
+import {
+  User,
+  Contract,
+  JobType,
+  JobDefinition,
+  ScheduledJobRecord,
+  getActiveContract,
+  getRecentLogs,
+  getUserPatterns,
+  findUserById,
+  upsertScheduledJob,
+  deactivateUserJobs,
+  getUserJobs,
+} from '../db/queries';
+import { queueMessage } from './outbox';
 import { generateMorningMessage } from '../flows/morning';
+import { settleDay } from '../flows/settlement';
+import {
+  getLockDate,
+  sendNightlyReminder,
+  sendNightlyNudge,
+  sendLastChance,
+  recordMissedLock,
+} from '../flows/nightlyEscalation';
+import { rollOverWeek } from '../flows/weeklyRollover';
+import { isContractExpired, startReview } from '../flows/contractReview';
+import { getRiskTimes, proposeRiskIntercept } from '../flows/riskLearning';
+import { generateReminderMessage } from '../flows/reminders';
 import { ConversationContext } from './llm';
 import { buildMemoryContext } from './memory';
-
-interface ScheduledJob {
-  id: string;
-  userId: string;
-  type: 'morning' | 'nightly' | 'risk';
-  time: string;
-  task: ReturnType<typeof cron.schedule>;
-}
-
-const scheduledJobs: Map<string, ScheduledJob[]> = new Map();
+import { buildTemplate } from './templates';
+import { getNextOccurrence, getUserYesterday, parseClockTime } from './time';
+
+// Jobs live in the scheduled_jobs table. Every replica polls it and claims
+// due rows with FOR UPDATE SKIP LOCKED, advancing (or retiring) the row in
+// that short transaction before the handler runs. So a run starts at most
+// once across replicas, and a crash mid-run skips it rather than repeating
+// its sends. What a handler queues is then delivered at least once by the
+// outbox, and charges are guarded by their own claims (settled_at etc.).
+
+type JobHandler = (user: User, job: ScheduledJobRecord) => Promise<void>;
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  morning: (user) => sendMorningMessage(user),
+  nightly: (user, job) => runNightlyStep(user, job, 'reminder'),
+  nightly_nudge: (user, job) => runNightlyStep(user, job, 'nudge'),
+  nightly_last_chance: (user, job) => runNightlyStep(user, job, 'last_chance'),
+  missed_lock: (user, job) => runNightlyStep(user, job, 'missed'),
+  risk: (user, job) => sendRiskIntercept(user, job.payload.riskTime),
+  settlement: (user) => runSettlement(user),
+  weekly_rollover: (user) => runWeeklyRollover(user),
+  contract_review: (user) => runContractReview(user),
+  risk_review: (user) => runRiskReview(user),
+  reminder: (user, job) => sendReminder(user, job.payload.text),
+};
+
+// How late a run may still fire after downtime. Past this it is skipped:
+// a morning message at 3pm is worse than none.
+const GRACE_MINUTES: Record<JobType, number> = {
+  morning: 120,
+  nightly: 60,
+  nightly_nudge: 30,
+  nightly_last_chance: 15,
+  missed_lock: 12 * 60,
+  risk: 30,
+  settlement: 24 * 60,
+  weekly_rollover: 24 * 60,
+  contract_review: 24 * 60,
+  risk_review: 24 * 60,
+  reminder: 60,
+};
+
+// The recurring jobs scheduleUserJobs manages from the user's profile
+const PROFILE_JOB_TYPES: JobType[] = [
+  'morning',
+  'nightly',
+  'nightly_nudge',
+  'nightly_last_chance',
+  'missed_lock',
+  'risk',
+  'settlement',
+  'weekly_rollover',
+  'contract_review',
+  'risk_review',
+];
+
+const SETTLEMENT_MINUTES = 5; // 00:05 local
+const ROLLOVER_AFTER_SETTLEMENT_MINUTES = 10;
+const RISK_REVIEW_TIME = '12:00';
+const MAX_JOBS_PER_POLL = 50;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
 
 export async function initializeScheduler(): Promise<void> {
   console.log('Initializing scheduler...');
 
-  // Load all users with completed onboarding
+  // Make sure every onboarded user has jobs (covers users from before the
+  // jobs table existed); existing rows keep their next run
   const users = await query<User>(
     'SELECT * FROM users WHERE onboarding_complete = true'
   );
@@ -28,93 +108,235 @@ export async function initializeScheduler(): Promise<void> {
     await scheduleUserJobs(user);
   }
 
-  // Schedule weekly token reset (Monday at midnight)
-  cron.schedule('0 0 * * 1', async () => {
-    console.log('Weekly token reset...');
-    // Tokens auto-reset when getOrCreateWeekTokens is called
-  });
+  startPoller();
 
   console.log(`Scheduler initialized for ${users.length} users`);
 }
 
 export async function scheduleUserJobs(user: User): Promise<void> {
-  // Cancel existing jobs for this user
-  cancelUserJobs(user.id);
-
-  const jobs: ScheduledJob[] = [];
+  const jobs: JobDefinition[] = [];
 
   // Morning message
   if (user.wake_time) {
-    const [hours, minutes] = parseTime(user.wake_time);
-    const cronTime = `${minutes} ${hours} * * *`;
-
-    const task = cron.schedule(cronTime, async () => {
-      await sendMorningMessage(user);
-    });
-
-    jobs.push({
-      id: `morning-${user.id}`,
-      userId: user.id,
-      type: 'morning',
-      time: user.wake_time,
-      task,
-    });
-
-    console.log(`Scheduled morning message for ${user.phone} at ${user.wake_time}`);
+    jobs.push(dailyJob(user, 'morning', `morning:${user.id}`, formatTime(parseClockTime(user.wake_time))));
   }
 
-  // Nightly lock reminder (2 hours before sleep)
+  // Nightly lock escalation ladder, counted back from sleep time
+  let settlementMinutes = SETTLEMENT_MINUTES;
   if (user.sleep_time) {
-    const [hours, minutes] = parseTime(user.sleep_time);
-    const nightlyHour = (hours - 2 + 24) % 24;
-    const cronTime = `${minutes} ${nightlyHour} * * *`;
+    const [hours, minutes] = parseClockTime(user.sleep_time);
+    const sleepMinutes = hours * 60 + minutes;
+    const { reminderMinutesBeforeSleep, nudgeMinutesBeforeSleep, lastChanceMinutesBeforeSleep } = config.nightly;
+    const at = (before: number) => formatMinutes(sleepMinutes - before);
+
+    jobs.push(dailyJob(user, 'nightly', `nightly:${user.id}`, at(reminderMinutesBeforeSleep), {
+      minutesBeforeSleep: reminderMinutesBeforeSleep,
+    }));
+
+    for (const before of nudgeMinutesBeforeSleep) {
+      if (before >= reminderMinutesBeforeSleep || before <= lastChanceMinutesBeforeSleep) continue;
+      jobs.push(dailyJob(user, 'nightly_nudge', `nightly_nudge:${user.id}:${before}`, at(before), {
+        minutesBeforeSleep: before,
+      }));
+    }
 
-    const task = cron.schedule(cronTime, async () => {
-      await sendNightlyReminder(user);
-    });
+    jobs.push(dailyJob(user, 'nightly_last_chance', `nightly_last_chance:${user.id}`, at(lastChanceMinutesBeforeSleep), {
+      minutesBeforeSleep: lastChanceMinutesBeforeSleep,
+    }));
 
-    jobs.push({
-      id: `nightly-${user.id}`,
-      userId: user.id,
-      type: 'nightly',
-      time: `${nightlyHour}:${minutes.toString().padStart(2, '0')}`,
-      task,
-    });
+    jobs.push(dailyJob(user, 'missed_lock', `missed_lock:${user.id}`, at(0), {
+      minutesBeforeSleep: 0,
+    }));
 
-    console.log(`Scheduled nightly reminder for ${user.phone} at ${nightlyHour}:${minutes}`);
+    // Users who sleep after midnight settle after their lock deadline, so
+    // settlement doesn't charge a lock they can still make
+    if (sleepMinutes < 12 * 60) {
+      settlementMinutes = Math.max(SETTLEMENT_MINUTES, sleepMinutes + SETTLEMENT_MINUTES);
+    }
   }
 
   // Risk window intercepts
-  const riskTimes = JSON.parse(user.risk_times?.toString() || '[]') as string[];
-  for (const riskTime of riskTimes) {
-    const [hours, minutes] = parseTime(riskTime);
-    const cronTime = `${minutes} ${hours} * * *`;
+  for (const riskTime of getRiskTimes(user)) {
+    const time = formatTime(parseClockTime(riskTime));
+    jobs.push(dailyJob(user, 'risk', `risk:${user.id}:${time}`, time, { riskTime }));
+  }
 
-    const task = cron.schedule(cronTime, async () => {
-      await sendRiskIntercept(user, riskTime);
-    });
+  // End-of-day settlement, just after local midnight, for the day that ended
+  jobs.push(dailyJob(user, 'settlement', `settlement:${user.id}`, formatMinutes(settlementMinutes)));
 
+  // Weekly rollover on the first day of the user's week, after that night's settlement
+  jobs.push(weeklyJob(
+    user,
+    'weekly_rollover',
+    `weekly_rollover:${user.id}`,
+    formatMinutes(settlementMinutes + ROLLOVER_AFTER_SETTLEMENT_MINUTES),
+    user.week_start_day ?? 1
+  ));
+
+  // Weekly look at failure patterns for uncovered danger windows
+  jobs.push(weeklyJob(user, 'risk_review', `risk_review:${user.id}`, RISK_REVIEW_TIME, user.week_start_day ?? 1));
+
+  // One-off review when the active contract expires (until its review opens)
+  const contract = await getActiveContract(user.id);
+  if (contract?.expires_at && !contract.review_started_at) {
     jobs.push({
-      id: `risk-${user.id}-${riskTime}`,
-      userId: user.id,
-      type: 'risk',
-      time: riskTime,
-      task,
+      jobKey: `contract_review:${contract.id}`,
+      type: 'contract_review',
+      recurrence: null,
+      nextRunAt: new Date(contract.expires_at),
     });
+  }
 
-    console.log(`Scheduled risk intercept for ${user.phone} at ${riskTime}`);
+  for (const job of jobs) {
+    await upsertScheduledJob(user.id, job);
+    console.log(`Scheduled ${job.type} for ${user.phone} at ${job.localTime || job.nextRunAt.toISOString()} (${user.timezone})`);
   }
 
-  scheduledJobs.set(user.id, jobs);
+  // Drop jobs that no longer apply, e.g. a removed risk time
+  await deactivateUserJobs(user.id, PROFILE_JOB_TYPES, jobs.map(j => j.jobKey));
+}
+
+export async function cancelUserJobs(userId: string): Promise<void> {
+  await deactivateUserJobs(userId, PROFILE_JOB_TYPES);
+}
+
+export async function getScheduledJobs(userId: string): Promise<ScheduledJobRecord[]> {
+  return getUserJobs(userId);
+}
+
+function dailyJob(
+  user: User,
+  type: JobType,
+  jobKey: string,
+  localTime: string,
+  payload: Record<string, any> = {}
+): JobDefinition {
+  return {
+    jobKey,
+    type,
+    payload,
+    recurrence: 'daily',
+    localTime,
+    timezone: user.timezone,
+    nextRunAt: getNextOccurrence(localTime, user.timezone),
+  };
+}
+
+function weeklyJob(
+  user: User,
+  type: JobType,
+  jobKey: string,
+  localTime: string,
+  weekday: number
+): JobDefinition {
+  return {
+    jobKey,
+    type,
+    payload: {},
+    recurrence: 'weekly',
+    localTime,
+    weekday,
+    timezone: user.timezone,
+    nextRunAt: getNextOccurrence(localTime, user.timezone, new Date(), weekday),
+  };
+}
+
+function startPoller(): void {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => {
+    void pollDueJobs();
+  }, config.scheduler.pollIntervalMs);
+
+  console.log(`Scheduler polling every ${config.scheduler.pollIntervalMs}ms`);
+  void pollDueJobs();
+}
+
+export function stopScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
 }
 
-export function cancelUserJobs(userId: string): void {
-  const jobs = scheduledJobs.get(userId);
-  if (jobs) {
-    for (const job of jobs) {
-      job.task.stop();
+async function pollDueJobs(): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    for (let i = 0; i < MAX_JOBS_PER_POLL; i++) {
+      const claimed = await withTransaction(claimNextJob);
+      if (!claimed) break;
+
+      // Outside the claiming transaction, so a slow handler (LLM calls,
+      // sends) holds no connection or row lock
+      if (claimed.lateMinutes > (GRACE_MINUTES[claimed.job.type] ?? 60)) {
+        console.warn(`Skipping ${claimed.job.job_key}: ${Math.round(claimed.lateMinutes)} minutes past due`);
+      } else {
+        await runJob(claimed.job);
+      }
     }
-    scheduledJobs.delete(userId);
+  } catch (error) {
+    console.error('Error polling scheduled jobs:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+// Claims the next due job by moving it to its next run (or retiring a
+// one-off) and returns it as it was when due
+async function claimNextJob(client: PoolClient): Promise<{ job: ScheduledJobRecord; lateMinutes: number } | null> {
+  const { rows } = await client.query<ScheduledJobRecord>(
+    `SELECT * FROM scheduled_jobs
+     WHERE active = true AND next_run_at <= NOW()
+     ORDER BY next_run_at
+     LIMIT 1
+     FOR UPDATE SKIP LOCKED`
+  );
+
+  const job = rows[0];
+  if (!job) return null;
+
+  const now = new Date();
+  const lateMinutes = (now.getTime() - new Date(job.next_run_at).getTime()) / 60000;
+
+  if (job.recurrence && job.local_time) {
+    const nextRunAt = getNextOccurrence(
+      job.local_time,
+      job.timezone || 'UTC',
+      now,
+      job.recurrence === 'weekly' ? job.weekday ?? undefined : undefined
+    );
+    await client.query(
+      'UPDATE scheduled_jobs SET next_run_at = $2, last_run_at = NOW() WHERE id = $1',
+      [job.id, nextRunAt]
+    );
+  } else {
+    await client.query(
+      'UPDATE scheduled_jobs SET active = false, last_run_at = NOW() WHERE id = $1',
+      [job.id]
+    );
+  }
+
+  return { job, lateMinutes };
+}
+
+async function runJob(job: ScheduledJobRecord): Promise<void> {
+  const handler = JOB_HANDLERS[job.type];
+  if (!handler) {
+    console.error(`No handler for job type ${job.type}`);
+    return;
+  }
+
+  // Load the user fresh so profile changes since scheduling apply
+  const user = await findUserById(job.user_id);
+  if (!user) return;
+
+  try {
+    await handler(user, job);
+  } catch (error) {
+    // Handlers queue through the outbox, which retries delivery itself
+    console.error(`Error running ${job.job_key}:`, error);
   }
 }
 
@@ -126,21 +348,46 @@ async function sendMorningMessage(user: User): Promise<void> {
     const context = await buildContext(user, contract);
     const message = await generateMorningMessage(user, contract, context);
 
-    await sendMessage(user.phone, message);
-    console.log(`Morning message sent to ${user.phone}`);
+    await queueMessage(user, message, {
+      flow: 'morning',
+      template: buildTemplate('morning_checkin', { name: user.name || 'there' }),
+    });
+    console.log(`Morning message queued for ${user.phone}`);
   } catch (error) {
-    console.error(`Error sending morning message to ${user.phone}:`, error);
+    console.error(`Error queueing morning message to ${user.phone}:`, error);
   }
 }
 
-async function sendNightlyReminder(user: User): Promise<void> {
-  try {
-    await sendMessage(user.phone, `Time to lock tomorrow.
+async function runNightlyStep(
+  user: User,
+  job: ScheduledJobRecord,
+  step: 'reminder' | 'nudge' | 'last_chance' | 'missed'
+): Promise<void> {
+  const scheduledAt = new Date(job.next_run_at);
+  const minutesBeforeSleep = Number(job.payload.minutesBeforeSleep ?? 0);
+  const lockDate = getLockDate(user, scheduledAt, minutesBeforeSleep);
 
-Reply "lock" to start your nightly check-in.`);
-    console.log(`Nightly reminder sent to ${user.phone}`);
+  try {
+    switch (step) {
+      case 'reminder':
+        await sendNightlyReminder(user, lockDate);
+        break;
+      case 'nudge':
+        await sendNightlyNudge(user, lockDate);
+        break;
+      case 'last_chance':
+        await sendLastChance(user, lockDate, minutesBeforeSleep);
+        break;
+      case 'missed': {
+        const reminderAt = new Date(
+          scheduledAt.getTime() - config.nightly.reminderMinutesBeforeSleep * 60000
+        );
+        await recordMissedLock(user, lockDate, reminderAt);
+        break;
+      }
+    }
   } catch (error) {
-    console.error(`Error sending nightly reminder to ${user.phone}:`, error);
+    console.error(`Error running nightly ${step} for ${user.phone}:`, error);
   }
 }
 
@@ -150,16 +397,74 @@ async function sendRiskIntercept(user: User, riskTime: string): Promise<void> {
 
 Are you still on track? What's the next right action?`;
 
-    await sendMessage(user.phone, message);
-    console.log(`Risk intercept sent to ${user.phone} at ${riskTime}`);
+    await queueMessage(user, message, {
+      flow: 'risk_intercept',
+      template: buildTemplate('risk_intercept', { time: riskTime }),
+    });
+    console.log(`Risk intercept queued for ${user.phone} at ${riskTime}`);
+  } catch (error) {
+    console.error(`Error queueing risk intercept to ${user.phone}:`, error);
+  }
+}
+
+async function sendReminder(user: User, text: string): Promise<void> {
+  try {
+    await queueMessage(user, generateReminderMessage(text), { flow: 'reminder' });
+    console.log(`Reminder queued for ${user.phone}`);
+  } catch (error) {
+    console.error(`Error queueing reminder to ${user.phone}:`, error);
+  }
+}
+
+async function runSettlement(user: User): Promise<void> {
+  try {
+    await settleDay(user, getUserYesterday(user));
   } catch (error) {
-    console.error(`Error sending risk intercept to ${user.phone}:`, error);
+    console.error(`Error settling day for ${user.phone}:`, error);
+  }
+}
+
+async function runWeeklyRollover(user: User): Promise<void> {
+  try {
+    await rollOverWeek(user);
+  } catch (error) {
+    console.error(`Error rolling over week for ${user.phone}:`, error);
+  }
+}
+
+async function runContractReview(user: User): Promise<void> {
+  try {
+    const contract = await getActiveContract(user.id);
+    if (!contract || !isContractExpired(contract)) return;
+
+    const review = await startReview(user, contract);
+    if (review) {
+      await queueMessage(user, review, { flow: 'contract_review' });
+      console.log(`Contract review opened for ${user.phone}`);
+    }
+  } catch (error) {
+    console.error(`Error opening contract review for ${user.phone}:`, error);
+  }
+}
+
+async function runRiskReview(user: User): Promise<void> {
+  try {
+    const contract = await getActiveContract(user.id);
+    if (!contract) return;
+
+    const proposal = await proposeRiskIntercept(user, contract);
+    if (proposal) {
+      await queueMessage(user, proposal, { flow: 'risk_proposal' });
+      console.log(`Risk intercept proposed to ${user.phone}`);
+    }
+  } catch (error) {
+    console.error(`Error reviewing risk windows for ${user.phone}:`, error);
   }
 }
 
 async function buildContext(user: User, contract: Contract): Promise<ConversationContext> {
   const [recentLogs, patterns, memory] = await Promise.all([
-    getRecentLogs(user.id, 7),
+    getRecentLogs(user, 7),
     getUserPatterns(user.id, 10),
     buildMemoryContext(user),
   ]);
@@ -174,21 +479,12 @@ async function buildContext(user: User, contract: Contract): Promise<Conversatio
   };
 }
 
-function parseTime(timeStr: string): [number, number] {
-  const cleaned = timeStr.replace(/\s+/g, '').toLowerCase();
-
-  // Handle HH:MM format
-  const [hoursStr, minutesStr = '0'] = cleaned.replace(/am|pm/g, '').split(':');
-  let hours = parseInt(hoursStr, 10);
-  const minutes = parseInt(minutesStr, 10);
-
-  // Handle AM/PM
-  if (cleaned.includes('pm') && hours < 12) hours += 12;
-  if (cleaned.includes('am') && hours === 12) hours = 0;
-
-  return [hours, minutes];
+// Minutes since local midnight (wrapping across days) as HH:MM
+function formatMinutes(totalMinutes: number): string {
+  const wrapped = ((totalMinutes % 1440) + 1440) % 1440;
+  return formatTime([Math.floor(wrapped / 60), wrapped % 60]);
 }
 
-export function getScheduledJobs(): Map<string, ScheduledJob[]> {
-  return scheduledJobs;
+function formatTime([hours, minutes]: [number, number]): string {
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
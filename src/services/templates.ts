@@ -0,0 +1,66 @@
+import { config } from '../config/env';
+import { User } from '../db/queries';
+
+// WhatsApp only accepts freeform messages within 24 hours of the user's last
+// inbound message. Outside that window proactive sends must use a
+// pre-approved template, referenced by its Twilio Content SID.
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type TemplateKey = 'morning_checkin' | 'nightly_lock' | 'risk_intercept' | 'referee_alert' | 'referee_approval';
+
+interface TemplateDefinition {
+  contentSid: string;
+  // Names of the template's {{1}}, {{2}}, ... placeholders, in order
+  variables: string[];
+}
+
+const TEMPLATES: Record<TemplateKey, TemplateDefinition> = {
+  morning_checkin: {
+    contentSid: config.templates.morningCheckin,
+    variables: ['name'],
+  },
+  nightly_lock: {
+    contentSid: config.templates.nightlyLock,
+    variables: ['name'],
+  },
+  risk_intercept: {
+    contentSid: config.templates.riskIntercept,
+    variables: ['time'],
+  },
+  referee_alert: {
+    contentSid: config.templates.refereeAlert,
+    variables: ['name', 'punishment'],
+  },
+  referee_approval: {
+    contentSid: config.templates.refereeApproval,
+    variables: ['name', 'request', 'code'],
+  },
+};
+
+export interface TemplateRef {
+  key: TemplateKey;
+  variables: Record<string, string>;
+}
+
+export function buildTemplate(key: TemplateKey, values: Record<string, string>): TemplateRef {
+  const definition = TEMPLATES[key];
+  const variables: Record<string, string> = {};
+
+  definition.variables.forEach((name, i) => {
+    variables[String(i + 1)] = values[name] ?? '';
+  });
+
+  return { key, variables };
+}
+
+export function getTemplateContentSid(key: string): string | null {
+  const definition = TEMPLATES[key as TemplateKey];
+  return definition?.contentSid || null;
+}
+
+export function isSessionWindowOpen(user: User, now: Date = new Date()): boolean {
+  if (!user.last_inbound_at) {
+    return false;
+  }
+  return now.getTime() - new Date(user.last_inbound_at).getTime() < SESSION_WINDOW_MS;
+}
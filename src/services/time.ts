@@ -0,0 +1,242 @@
+import { User } from '../db/queries';
+
+// Everything that talks about "today" goes through here so a user's day
+// follows their own timezone, not the server's or the database's (UTC).
+
+const FALLBACK_TIMEZONE = 'America/Los_Angeles';
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  minutes: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function getLocalTime(timezone: string, at: Date = new Date()): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: safeTimezone(timezone),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hours: parseInt(get('hour'), 10),
+    minutes: parseInt(get('minute'), 10),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+export function getLocalDate(timezone: string, at: Date = new Date()): string {
+  return getLocalTime(timezone, at).date;
+}
+
+export function getUserToday(user: User, at: Date = new Date()): string {
+  return getLocalDate(user.timezone, at);
+}
+
+export function getUserYesterday(user: User, at: Date = new Date()): string {
+  return addDays(getUserToday(user, at), -1);
+}
+
+// First day of the user's current local week (Monday unless they chose otherwise)
+export function getUserWeekStart(user: User, at: Date = new Date()): string {
+  return getWeekStart(getUserToday(user, at), user.week_start_day ?? 1);
+}
+
+// First day of the week containing a local date, for a week starting on
+// `weekStartDay` (0 = Sunday, 1 = Monday)
+export function getWeekStart(date: string, weekStartDay: number = 1): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const daysSinceStart = (weekday - weekStartDay + 7) % 7;
+  return addDays(date, -daysSinceStart);
+}
+
+export function getWeekdayName(weekday: number): string {
+  return WEEKDAY_NAMES[weekday] || WEEKDAY_NAMES[1];
+}
+
+// "sunday", "Sun", "mon" -> weekday number (0 = Sunday)
+export function parseWeekday(text: string): number | null {
+  const lower = text.trim().toLowerCase();
+  const index = WEEKDAY_NAMES.findIndex(name => lower.startsWith(name.substring(0, 3).toLowerCase()));
+  return index >= 0 ? index : null;
+}
+
+// "22:30", "10:30pm", "11 pm" -> [hours, minutes]
+export function parseClockTime(timeStr: string): [number, number] {
+  const cleaned = timeStr.replace(/\s+/g, '').toLowerCase();
+
+  // Handle HH:MM format
+  const [hoursStr, minutesStr = '0'] = cleaned.replace(/am|pm/g, '').split(':');
+  let hours = parseInt(hoursStr, 10);
+  const minutes = parseInt(minutesStr, 10);
+
+  // Handle AM/PM
+  if (cleaned.includes('pm') && hours < 12) hours += 12;
+  if (cleaned.includes('am') && hours === 12) hours = 0;
+
+  return [hours, minutes];
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// The UTC instant at which a local wall-clock time occurs in a timezone
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  const [year, month, day] = date.split('-').map(n => parseInt(n, 10));
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes || 0);
+
+  // Correct by the zone's offset at that moment (twice to settle DST edges)
+  let guess = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalTime(timezone, new Date(guess));
+    const [ly, lm, ld] = local.date.split('-').map(n => parseInt(n, 10));
+    const localAsUtc = Date.UTC(ly, lm - 1, ld, local.hours, local.minutes);
+    guess += asUtc - localAsUtc;
+  }
+
+  return new Date(guess);
+}
+
+// Next instant strictly after `after` when the local clock reads `time`
+// (HH:MM), optionally restricted to a weekday (0 = Sunday)
+export function getNextOccurrence(
+  time: string,
+  timezone: string,
+  after: Date = new Date(),
+  weekday?: number
+): Date {
+  const tz = safeTimezone(timezone);
+  const today = getLocalDate(tz, after);
+
+  for (let offset = 0; offset <= 8; offset++) {
+    const date = addDays(today, offset);
+    if (weekday !== undefined && new Date(`${date}T00:00:00Z`).getUTCDay() !== weekday) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(date, time, tz);
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+
+  // Unreachable: some day within the next 8 has the time (and weekday)
+  throw new Error(`No next occurrence for ${time} in ${timezone}`);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function safeTimezone(timezone: string): string {
+  return timezone && isValidTimezone(timezone) ? timezone : FALLBACK_TIMEZONE;
+}
+
+// Countries that span a single timezone, keyed by calling code
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  '972': 'Asia/Jerusalem',
+  '971': 'Asia/Dubai',
+  '353': 'Europe/Dublin',
+  '234': 'Africa/Lagos',
+  '91': 'Asia/Kolkata',
+  '90': 'Europe/Istanbul',
+  '86': 'Asia/Shanghai',
+  '82': 'Asia/Seoul',
+  '81': 'Asia/Tokyo',
+  '65': 'Asia/Singapore',
+  '64': 'Pacific/Auckland',
+  '49': 'Europe/Berlin',
+  '48': 'Europe/Warsaw',
+  '46': 'Europe/Stockholm',
+  '44': 'Europe/London',
+  '41': 'Europe/Zurich',
+  '39': 'Europe/Rome',
+  '34': 'Europe/Madrid',
+  '33': 'Europe/Paris',
+  '31': 'Europe/Amsterdam',
+  '30': 'Europe/Athens',
+  '27': 'Africa/Johannesburg',
+  '20': 'Africa/Cairo',
+};
+
+export function inferTimezoneFromPhone(phone: string): string | null {
+  const digits = phone.replace(/^whatsapp:/, '').replace(/[^\d]/g, '');
+
+  // Longest calling codes first so +972 isn't read as +97x
+  for (const length of [3, 2]) {
+    const timezone = COUNTRY_TIMEZONES[digits.substring(0, length)];
+    if (timezone) return timezone;
+  }
+
+  return null;
+}
+
+const TIMEZONE_ALIASES: Record<string, string> = {
+  'tel aviv': 'Asia/Jerusalem',
+  'jerusalem': 'Asia/Jerusalem',
+  'israel': 'Asia/Jerusalem',
+  'london': 'Europe/London',
+  'uk': 'Europe/London',
+  'berlin': 'Europe/Berlin',
+  'paris': 'Europe/Paris',
+  'new york': 'America/New_York',
+  'nyc': 'America/New_York',
+  'chicago': 'America/Chicago',
+  'denver': 'America/Denver',
+  'los angeles': 'America/Los_Angeles',
+  'la': 'America/Los_Angeles',
+  'san francisco': 'America/Los_Angeles',
+  'sf': 'America/Los_Angeles',
+  'toronto': 'America/Toronto',
+  'sydney': 'Australia/Sydney',
+  'eastern': 'America/New_York',
+  'central': 'America/Chicago',
+  'mountain': 'America/Denver',
+  'pacific': 'America/Los_Angeles',
+  'est': 'America/New_York',
+  'edt': 'America/New_York',
+  'cst': 'America/Chicago',
+  'cdt': 'America/Chicago',
+  'mst': 'America/Denver',
+  'mdt': 'America/Denver',
+  'pst': 'America/Los_Angeles',
+  'pdt': 'America/Los_Angeles',
+  'gmt': 'Europe/London',
+  'utc': 'UTC',
+};
+
+// Accepts an IANA name ("Asia/Jerusalem") or a common city/zone name
+export function parseTimezone(text: string): string | null {
+  const iana = text.match(/\b([A-Za-z]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)\b/);
+  if (iana && isValidTimezone(iana[1])) {
+    return iana[1];
+  }
+
+  const lower = text.trim().toLowerCase();
+  if (TIMEZONE_ALIASES[lower]) {
+    return TIMEZONE_ALIASES[lower];
+  }
+
+  return null;
+}
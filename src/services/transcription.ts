@@ -0,0 +1,61 @@
+import OpenAI, { toFile } from 'openai';
+import { config } from '../config/env';
+import { getChannel } from './messaging';
+
+export interface SpeechToTextProvider {
+  name: string;
+  transcribe(audio: Buffer, contentType: string): Promise<string>;
+}
+
+const openai = new OpenAI({ apiKey: config.openai.apiKey });
+
+const openaiProvider: SpeechToTextProvider = {
+  name: 'openai',
+  async transcribe(audio: Buffer, contentType: string): Promise<string> {
+    const file = await toFile(audio, `voice.${getExtension(contentType)}`, { type: contentType });
+    const result = await openai.audio.transcriptions.create({
+      file,
+      model: 'whisper-1',
+    });
+    return result.text.trim();
+  },
+};
+
+// Offline stand-in: returns STT_STUB_TEXT if set, otherwise treats the "audio"
+// as UTF-8 text so a local fixture file can carry its own transcript
+const stubProvider: SpeechToTextProvider = {
+  name: 'stub',
+  async transcribe(audio: Buffer): Promise<string> {
+    return (config.transcription.stubText || audio.toString('utf-8')).trim();
+  },
+};
+
+const providers: Record<string, SpeechToTextProvider> = {
+  openai: openaiProvider,
+  stub: stubProvider,
+};
+
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+  const provider = providers[config.transcription.provider];
+  if (!provider) {
+    throw new Error(`Unknown speech-to-text provider: ${config.transcription.provider}`);
+  }
+  return provider;
+}
+
+export function isAudio(contentType?: string): boolean {
+  return !!contentType && contentType.toLowerCase().startsWith('audio/');
+}
+
+export async function transcribeMedia(mediaUrl: string, contentType: string): Promise<string> {
+  const audio = await getChannel().fetchMedia(mediaUrl);
+  const transcript = await getSpeechToTextProvider().transcribe(audio, contentType);
+  console.log(`Transcribed voice note (${audio.length} bytes): ${transcript.substring(0, 50)}...`);
+  return transcript;
+}
+
+function getExtension(contentType: string): string {
+  // WhatsApp voice notes arrive as audio/ogg; codecs=opus
+  const subtype = contentType.split(';')[0].split('/')[1] || 'ogg';
+  return subtype === 'mpeg' ? 'mp3' : subtype;
+}
@@ -1,57 +1,263 @@
 import twilio from 'twilio';
 import { config } from '../config/env';
+import {
+  MessagingChannel,
+  IncomingMessage,
+  DeliveryStatus,
+  SendResult,
+  InteractiveContent,
+} from './messaging';
 
-const client = twilio(config.twilio.accountSid, config.twilio.authToken);
-
-export interface IncomingMessage {
-  from: string;
-  body: string;
-  mediaUrl?: string;
-  mediaContentType?: string;
-}
-
-export async function sendMessage(to: string, body: string): Promise<void> {
-  try {
-    await client.messages.create({
-      from: config.twilio.phoneNumber,
-      to: to.startsWith('whatsapp:') ? to : `whatsapp:${to}`,
-      body,
-    });
-    console.log(`Message sent to ${to}: ${body.substring(0, 50)}...`);
-  } catch (error) {
-    console.error('Error sending message:', error);
-    throw error;
+// Created lazily so other channels can run without Twilio credentials
+let client: ReturnType<typeof twilio> | null = null;
+
+function getClient(): ReturnType<typeof twilio> {
+  if (!client) {
+    client = twilio(config.twilio.accountSid, config.twilio.authToken);
   }
+  return client;
+}
+
+function toWhatsApp(to: string): string {
+  return to.startsWith('whatsapp:') ? to : `whatsapp:${to}`;
+}
+
+// Status callbacks need a publicly reachable URL, so only request them when one is configured
+function getStatusCallback(): string | undefined {
+  const baseUrl = config.webhook.publicBaseUrl;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/webhook/status` : undefined;
+}
+
+async function sendText(to: string, body: string): Promise<SendResult> {
+  const message = await getClient().messages.create({
+    from: config.twilio.phoneNumber,
+    to: toWhatsApp(to),
+    body,
+    statusCallback: getStatusCallback(),
+  });
+  return { sid: message.sid, status: message.status };
 }
 
-export async function sendMediaMessage(
+async function sendMedia(to: string, body: string, mediaUrl: string): Promise<SendResult> {
+  const message = await getClient().messages.create({
+    from: config.twilio.phoneNumber,
+    to: toWhatsApp(to),
+    body,
+    mediaUrl: [mediaUrl],
+    statusCallback: getStatusCallback(),
+  });
+  return { sid: message.sid, status: message.status };
+}
+
+async function sendTemplate(
   to: string,
-  body: string,
-  mediaUrl: string
-): Promise<void> {
-  try {
-    await client.messages.create({
-      from: config.twilio.phoneNumber,
-      to: to.startsWith('whatsapp:') ? to : `whatsapp:${to}`,
-      body,
-      mediaUrl: [mediaUrl],
-    });
-    console.log(`Media message sent to ${to}`);
-  } catch (error) {
-    console.error('Error sending media message:', error);
-    throw error;
+  contentSid: string,
+  variables: Record<string, string>
+): Promise<SendResult> {
+  const message = await getClient().messages.create({
+    from: config.twilio.phoneNumber,
+    to: toWhatsApp(to),
+    contentSid,
+    contentVariables: JSON.stringify(variables),
+    statusCallback: getStatusCallback(),
+  });
+  return { sid: message.sid, status: message.status };
+}
+
+// Quick replies and list pickers go out as Content API resources. Rather
+// than one resource per message, there is one per layout (kind and option
+// count) with every text as a variable. They're found by name on first use,
+// so restarts reuse them and the account holds a fixed handful.
+const CONTENT_API_URL = 'https://content.twilio.com/v1/Content';
+const CONTENT_NAME_PREFIX = 'interactive';
+
+// The API's wire format; the SDK's camelCased create() types don't match it
+interface ContentResourceRequest {
+  friendly_name: string;
+  language: string;
+  variables: Record<string, string>;
+  types: {
+    'twilio/quick-reply'?: {
+      body: string;
+      actions: { id: string; title: string }[];
+    };
+    'twilio/list-picker'?: {
+      body: string;
+      button: string;
+      items: { id: string; item: string; description?: string }[];
+    };
+  };
+}
+
+interface InteractiveLayout {
+  name: string;
+  request: ContentResourceRequest;
+  variables: Record<string, string>; // this message's values for the layout
+}
+
+const interactiveContentSids = new Map<string, Promise<string>>();
+let existingContentSids: Promise<Map<string, string>> | null = null;
+
+function buildInteractiveLayout(content: InteractiveContent): InteractiveLayout {
+  const values: string[] = [content.body];
+  const slot = (value: string): string => {
+    values.push(value);
+    return `{{${values.length}}}`;
+  };
+
+  let name: string;
+  let types: ContentResourceRequest['types'];
+
+  if (content.list) {
+    const items = content.list.items;
+    const described = items.every(i => !!i.description);
+    name = `${CONTENT_NAME_PREFIX}_list_${items.length}${described ? '_described' : ''}`;
+    types = {
+      'twilio/list-picker': {
+        body: '{{1}}',
+        button: slot(content.list.button),
+        items: items.map(i => ({
+          id: slot(i.id),
+          item: slot(i.title),
+          ...(described ? { description: slot(i.description!) } : {}),
+        })),
+      },
+    };
+  } else {
+    const buttons = content.buttons || [];
+    name = `${CONTENT_NAME_PREFIX}_buttons_${buttons.length}`;
+    types = {
+      'twilio/quick-reply': {
+        body: '{{1}}',
+        actions: buttons.map(b => ({ id: slot(b.id), title: slot(b.title) })),
+      },
+    };
+  }
+
+  const variables: Record<string, string> = {};
+  values.forEach((value, i) => {
+    variables[String(i + 1)] = value;
+  });
+
+  return {
+    name,
+    variables,
+    // This message's values double as the required sample values
+    request: { friendly_name: name, language: 'en', variables, types },
+  };
+}
+
+// Cached per layout as a promise, so concurrent sends can't both create it
+function getInteractiveContentSid(layout: InteractiveLayout): Promise<string> {
+  let sid = interactiveContentSids.get(layout.name);
+  if (!sid) {
+    sid = findOrCreateContent(layout);
+    interactiveContentSids.set(layout.name, sid);
+    sid.catch(() => interactiveContentSids.delete(layout.name));
+  }
+  return sid;
+}
+
+async function findOrCreateContent(layout: InteractiveLayout): Promise<string> {
+  if (!existingContentSids) {
+    existingContentSids = getClient().content.v1.contents.list()
+      .then(contents => new Map(
+        contents
+          .filter(c => c.friendlyName.startsWith(CONTENT_NAME_PREFIX))
+          .map(c => [c.friendlyName, c.sid] as [string, string])
+      ))
+      .catch(error => {
+        existingContentSids = null;
+        throw error;
+      });
+  }
+
+  return (await existingContentSids).get(layout.name) || await createContent(layout.request);
+}
+
+async function createContent(request: ContentResourceRequest): Promise<string> {
+  const response = await getClient().request({
+    method: 'post',
+    uri: CONTENT_API_URL,
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    data: request,
+  });
+
+  const body: { sid?: string; message?: string } = typeof response.body === 'string'
+    ? JSON.parse(response.body)
+    : response.body;
+
+  if (response.statusCode >= 400 || !body?.sid) {
+    throw Object.assign(
+      new Error(`Content create failed (${response.statusCode}): ${body?.message || 'no sid'}`),
+      { status: response.statusCode }
+    );
+  }
+
+  return body.sid;
+}
+
+async function sendInteractive(to: string, content: InteractiveContent): Promise<SendResult> {
+  const layout = buildInteractiveLayout(content);
+  const contentSid = await getInteractiveContentSid(layout);
+  const message = await getClient().messages.create({
+    from: config.twilio.phoneNumber,
+    to: toWhatsApp(to),
+    contentSid,
+    contentVariables: JSON.stringify(layout.variables),
+    statusCallback: getStatusCallback(),
+  });
+  return { sid: message.sid, status: message.status };
+}
+
+// Inbound media URLs are protected by the account credentials
+async function fetchMedia(url: string): Promise<Buffer> {
+  const auth = Buffer.from(`${config.twilio.accountSid}:${config.twilio.authToken}`).toString('base64');
+  const response = await fetch(url, { headers: { Authorization: `Basic ${auth}` } });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch media (${response.status}): ${url}`);
   }
+
+  return Buffer.from(await response.arrayBuffer());
 }
 
-export function parseIncomingMessage(body: any): IncomingMessage {
+function parseIncoming(body: any): IncomingMessage {
   return {
     from: body.From,
     body: body.Body || '',
     mediaUrl: body.MediaUrl0,
     mediaContentType: body.MediaContentType0,
+    messageSid: body.MessageSid,
+    payload: body.ButtonPayload || body.ListId || undefined,
   };
 }
 
+function parseStatus(body: any): DeliveryStatus | null {
+  if (!body.MessageSid || !body.MessageStatus) {
+    return null;
+  }
+
+  return {
+    messageSid: body.MessageSid,
+    status: body.MessageStatus,
+    to: body.To,
+    errorCode: body.ErrorCode,
+  };
+}
+
+export const twilioChannel: MessagingChannel = {
+  name: 'twilio',
+  supportsInteractive: true,
+  parseIncoming,
+  sendText,
+  sendMedia,
+  sendTemplate,
+  sendInteractive,
+  fetchMedia,
+  parseStatus,
+};
+
 export function validateTwilioSignature(
   signature: string,
   url: string,